@@ -0,0 +1,256 @@
+import fs from 'fs';
+import { dirname } from 'path';
+import {
+  BUSINESS_HOURS,
+  BUSINESS_TIMEZONE,
+  BUSINESS_HOLIDAYS,
+  BUSINESS_HOURS_FILE,
+  AWAY_MESSAGE,
+  AWAY_MESSAGE_INTERVAL_MINUTES,
+} from './config.js';
+import { db } from './db.js';
+import { logger } from './logger.js';
+import { getZonedParts, isValidTimeZone } from './timezone.js';
+import { renderPlaceholders } from './placeholders.js';
+import { sendWhatsAppMessage } from './send.js';
+import type { WhatsAppSession } from './sessions.js';
+
+// Horário de atendimento semanal, ex.: "mon-fri 09:00-18:00, sat 09:00-12:00" (no fuso configurado),
+// feriados e modo ausente manual. Fora do horário, mensagens recebidas em chats privados recebem a
+// mensagem de ausência no máximo uma vez por chat a cada awayMessageIntervalMinutes.
+// As configurações alteradas pela API ficam em BUSINESS_HOURS_FILE e têm precedência sobre o .env.
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Intervalos por dia da semana (0 = domingo), em minutos desde 00:00
+export type WeeklySchedule = { start: number; end: number }[][];
+
+export interface BusinessHoursSettings {
+  // Vazio = sempre aberto
+  schedule: string;
+  timezone: string;
+  // "YYYY-MM-DD" (data específica) ou "MM-DD" (todo ano)
+  holidays: string[];
+  // Vazio = não responde fora do horário
+  awayMessage: string;
+  awayMessageIntervalMinutes: number;
+  // Modo ausente manual (fora do horário independentemente da agenda)
+  away: boolean;
+  // Fim do modo ausente manual (ISO); null = até ser desligado
+  awayUntil: string | null;
+}
+
+export type BusinessHoursInput = Partial<BusinessHoursSettings>;
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS away_replies (
+    session_id TEXT NOT NULL,
+    chat_jid TEXT NOT NULL,
+    sent_at INTEGER NOT NULL,
+    PRIMARY KEY (session_id, chat_jid)
+  );
+`);
+
+function parseTime(value: string): number | null {
+  const match = value.match(/^([01]\d|2[0-3]):([0-5]\d)$/) || (value === '24:00' ? ['24:00', '24', '00'] : null);
+  return match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : null;
+}
+
+// Interpretar "mon-fri 09:00-18:00, sat 09:00-12:00"; retorna null se o formato for inválido
+export function parseWeeklySchedule(value: string): WeeklySchedule | null {
+  const schedule: WeeklySchedule = WEEKDAYS.map(() => []);
+
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const match = entry.toLowerCase().match(/^([a-z]{3})(?:-([a-z]{3}))?\s+(\d{2}:\d{2})-(\d{2}:\d{2})$/);
+    if (!match) {
+      return null;
+    }
+
+    const [, firstDay, lastDay = firstDay, startTime, endTime] = match;
+    const first = WEEKDAYS.indexOf(firstDay);
+    const last = WEEKDAYS.indexOf(lastDay);
+    const start = parseTime(startTime);
+    const end = parseTime(endTime);
+    if (first === -1 || last === -1 || start === null || end === null || start >= end) {
+      return null;
+    }
+
+    // "fri-mon" atravessa o fim de semana
+    for (let day = first; ; day = (day + 1) % 7) {
+      schedule[day].push({ start, end });
+      if (day === last) {
+        break;
+      }
+    }
+  }
+
+  return schedule;
+}
+
+function isValidHoliday(value: unknown): boolean {
+  return typeof value === 'string' && /^(\d{4}-)?(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/.test(value);
+}
+
+// Validar dados de atualização; retorna mensagem de erro ou null
+export function validateBusinessHoursInput(input: BusinessHoursInput): string | null {
+  if (input.schedule !== undefined && (typeof input.schedule !== 'string' || (input.schedule.trim() && !parseWeeklySchedule(input.schedule)))) {
+    return 'schedule must look like "mon-fri 09:00-18:00, sat 09:00-12:00" (empty = always open)';
+  }
+  if (input.timezone !== undefined && (typeof input.timezone !== 'string' || !isValidTimeZone(input.timezone))) {
+    return 'timezone must be a valid IANA time zone (e.g. America/Sao_Paulo)';
+  }
+  if (input.holidays !== undefined && (!Array.isArray(input.holidays) || !input.holidays.every(isValidHoliday))) {
+    return 'holidays must be an array of dates in YYYY-MM-DD or MM-DD (every year) format';
+  }
+  if (input.awayMessage !== undefined && typeof input.awayMessage !== 'string') {
+    return 'awayMessage must be a string';
+  }
+  if (input.awayMessageIntervalMinutes !== undefined && (!Number.isInteger(input.awayMessageIntervalMinutes) || input.awayMessageIntervalMinutes < 1)) {
+    return 'awayMessageIntervalMinutes must be a positive integer';
+  }
+  if (input.away !== undefined && typeof input.away !== 'boolean') {
+    return 'away must be a boolean';
+  }
+  if (input.awayUntil !== undefined && input.awayUntil !== null && (typeof input.awayUntil !== 'string' || isNaN(Date.parse(input.awayUntil)))) {
+    return 'awayUntil must be an ISO date or null';
+  }
+  return null;
+}
+
+function getDefaultSettings(): BusinessHoursSettings {
+  return {
+    schedule: BUSINESS_HOURS,
+    timezone: BUSINESS_TIMEZONE,
+    holidays: BUSINESS_HOLIDAYS.filter(isValidHoliday),
+    awayMessage: AWAY_MESSAGE,
+    awayMessageIntervalMinutes: AWAY_MESSAGE_INTERVAL_MINUTES,
+    away: false,
+    awayUntil: null,
+  };
+}
+
+let settings = getDefaultSettings();
+let weeklySchedule: WeeklySchedule | null = null;
+
+function applySettings(next: BusinessHoursSettings) {
+  settings = next;
+  weeklySchedule = settings.schedule.trim() ? parseWeeklySchedule(settings.schedule) : null;
+  if (settings.schedule.trim() && !weeklySchedule) {
+    logger.error({ schedule: settings.schedule }, '❌ Invalid business hours schedule (expected e.g. "mon-fri 09:00-18:00, sat 09:00-12:00") - ignoring');
+  }
+}
+
+// Carregar configurações (.env + alterações salvas em BUSINESS_HOURS_FILE)
+export function loadBusinessHours() {
+  const defaults = getDefaultSettings();
+
+  if (fs.existsSync(BUSINESS_HOURS_FILE)) {
+    try {
+      const saved = JSON.parse(fs.readFileSync(BUSINESS_HOURS_FILE, 'utf-8'));
+      const error = validateBusinessHoursInput(saved);
+      if (error) {
+        throw new Error(error);
+      }
+      applySettings({ ...defaults, ...saved });
+      return;
+    } catch (error) {
+      logger.error({ err: error, file: BUSINESS_HOURS_FILE }, '❌ Error loading business hours file - using .env settings');
+    }
+  }
+
+  applySettings(defaults);
+}
+
+export function getBusinessHoursSettings(): BusinessHoursSettings {
+  return { ...settings };
+}
+
+// Atualizar configurações (apenas os campos enviados) e salvar no arquivo
+export function updateBusinessHours(input: BusinessHoursInput): BusinessHoursSettings {
+  const next: BusinessHoursSettings = {
+    ...settings,
+    ...Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined)),
+  };
+  // Desligar o modo ausente encerra também o prazo
+  if (input.away === false) {
+    next.awayUntil = null;
+  }
+
+  fs.mkdirSync(dirname(BUSINESS_HOURS_FILE), { recursive: true });
+  const tmpFile = `${BUSINESS_HOURS_FILE}.tmp`;
+  fs.writeFileSync(tmpFile, JSON.stringify(next, null, 2));
+  fs.renameSync(tmpFile, BUSINESS_HOURS_FILE);
+
+  applySettings(next);
+  logger.info({ away: next.away, awayUntil: next.awayUntil }, '🕘 Business hours settings updated');
+  return getBusinessHoursSettings();
+}
+
+// Modo ausente manual ativo? (expira sozinho em awayUntil)
+function isManuallyAway(date: Date): boolean {
+  return settings.away && (!settings.awayUntil || date.getTime() < Date.parse(settings.awayUntil));
+}
+
+function isHoliday(date: Date): boolean {
+  const { year, month, day } = getZonedParts(date, settings.timezone);
+  const monthDay = `${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  return settings.holidays.includes(monthDay) || settings.holidays.includes(`${year}-${monthDay}`);
+}
+
+// Dentro do horário de atendimento?
+export function isWithinBusinessHours(date: Date = new Date()): boolean {
+  if (isManuallyAway(date) || isHoliday(date)) {
+    return false;
+  }
+  if (!weeklySchedule) {
+    return true;
+  }
+  const { weekday, hour, minute } = getZonedParts(date, settings.timezone);
+  const current = hour * 60 + minute;
+  return weeklySchedule[weekday].some(({ start, end }) => current >= start && current < end);
+}
+
+// Situação atual (GET /business-hours)
+export function getBusinessHoursStatus(date: Date = new Date()) {
+  return {
+    open: isWithinBusinessHours(date),
+    away: isManuallyAway(date),
+    holiday: isHoliday(date),
+  };
+}
+
+// Enviar a mensagem de ausência se estiver fora do horário e o chat não a recebeu na janela configurada
+export async function sendAwayMessageIfNeeded(session: WhatsAppSession, chatJid: string, variables: Record<string, string>) {
+  if (!settings.awayMessage.trim() || isWithinBusinessHours()) {
+    return;
+  }
+
+  const now = Date.now();
+  const windowStart = now - settings.awayMessageIntervalMinutes * 60_000;
+  // Reservar antes de enviar (mensagens seguidas do mesmo chat não disparam duas respostas)
+  const claimed = db.prepare(`
+    INSERT INTO away_replies (session_id, chat_jid, sent_at) VALUES (?, ?, ?)
+    ON CONFLICT (session_id, chat_jid) DO UPDATE SET sent_at = excluded.sent_at
+    WHERE away_replies.sent_at < ?
+  `).run(session.id, chatJid, now, windowStart);
+  if (claimed.changes === 0) {
+    return;
+  }
+
+  try {
+    await sendWhatsAppMessage(session, {
+      phone: chatJid,
+      message: renderPlaceholders(settings.awayMessage, variables),
+      transactional: true,
+    }, undefined, { waitForSlot: true });
+    session.logger.info({ chatJid }, '🌙 Away message sent');
+  } catch (error) {
+    // Liberar a janela para tentar de novo na próxima mensagem
+    db.prepare('DELETE FROM away_replies WHERE session_id = ? AND chat_jid = ? AND sent_at = ?').run(session.id, chatJid, now);
+    session.logger.error({ err: error, chatJid }, '❌ Error sending away message');
+  }
+}
+
+// Remover o controle de mensagens de ausência de uma sessão
+export function deleteSessionAwayReplies(sessionId: string) {
+  db.prepare('DELETE FROM away_replies WHERE session_id = ?').run(sessionId);
+}
@@ -0,0 +1,561 @@
+import { randomUUID } from 'crypto';
+import { proto } from '@whiskeysockets/baileys';
+import { db } from './db.js';
+import { logger } from './logger.js';
+import { DEFAULT_TIMEZONE } from './config.js';
+import { publishEvent } from './events.js';
+import { toJid, toCrmChatId } from './jid.js';
+import { isOptedOut } from './consent.js';
+import { getSession } from './sessions.js';
+import { sendWhatsAppMessage, validateSendMessageInput, SendMessageInput } from './send.js';
+import { getMissingVariables, renderPlaceholders, validateVariables, TemplateVariables } from './placeholders.js';
+import { getZonedParts, isValidTimeZone, parseDateInTimeZone } from './timezone.js';
+
+// Campanhas (envio em massa): a mesma mensagem com variáveis por destinatário, enviada aos poucos
+// dentro da janela configurada. O progresso fica no banco e a campanha continua após reinícios.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS campaigns (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    template TEXT NOT NULL,
+    schedule TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'running',
+    next_send_at INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    completed_at INTEGER
+  );
+
+  CREATE TABLE IF NOT EXISTS campaign_recipients (
+    campaign_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    jid TEXT NOT NULL,
+    variables TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    message_id TEXT,
+    error TEXT,
+    sent_at INTEGER,
+    PRIMARY KEY (campaign_id, position)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_campaigns_status ON campaigns (status, next_send_at);
+  CREATE INDEX IF NOT EXISTS idx_campaign_recipients_status ON campaign_recipients (campaign_id, status, position);
+`);
+
+export const CAMPAIGN_STATUSES = ['running', 'paused', 'completed', 'cancelled'] as const;
+export const CAMPAIGN_RECIPIENT_STATUSES = ['pending', 'sending', 'sent', 'failed', 'not_on_whatsapp', 'opted_out', 'skipped'] as const;
+
+export type CampaignStatus = typeof CAMPAIGN_STATUSES[number];
+export type CampaignRecipientStatus = typeof CAMPAIGN_RECIPIENT_STATUSES[number];
+
+const MAX_RECIPIENTS = 10000;
+const DEFAULT_MESSAGES_PER_MINUTE = 10;
+const MAX_MESSAGES_PER_MINUTE = 60;
+const CAMPAIGN_INTERVAL_MS = 1000;
+
+// Conteúdo da campanha: texto com {{variaveis}} e mídia opcional (mesmos campos de /send-message)
+type CampaignTemplate = Pick<SendMessageInput, 'message' | 'mediaUrl' | 'mediaData' | 'mediaType' | 'mediaMimetype' | 'mediaFilename'>;
+
+// Janela de envio e ritmo
+interface CampaignSchedule {
+  startAt: number;
+  endAt?: number;
+  timezone: string;
+  // Horário diário permitido ("HH:MM", no fuso da campanha)
+  dailyStart?: string;
+  dailyEnd?: string;
+  messagesPerMinute: number;
+  // Atraso aleatório extra entre envios (segundos)
+  jitterSeconds: number;
+}
+
+export interface CampaignInput extends CampaignTemplate {
+  name?: string;
+  recipients?: { phone: string; variables?: TemplateVariables }[];
+  // Variáveis comuns a todos os destinatários (as do destinatário têm prioridade)
+  variables?: TemplateVariables;
+  startAt?: string;
+  endAt?: string;
+  timezone?: string;
+  dailyStart?: string;
+  dailyEnd?: string;
+  messagesPerMinute?: number;
+  jitterSeconds?: number;
+}
+
+interface CampaignRow {
+  id: string;
+  session_id: string;
+  name: string;
+  template: string;
+  schedule: string;
+  status: CampaignStatus;
+  next_send_at: number;
+  created_at: number;
+  updated_at: number;
+  completed_at: number | null;
+}
+
+interface RecipientRow {
+  campaign_id: string;
+  position: number;
+  jid: string;
+  variables: string;
+  status: CampaignRecipientStatus;
+  message_id: string | null;
+  error: string | null;
+  sent_at: number | null;
+}
+
+let campaignInterval: NodeJS.Timeout | null = null;
+// Campanhas com envio em andamento (um destinatário por vez)
+const busyCampaigns = new Set<string>();
+
+const TEMPLATE_FIELDS = ['message', 'mediaUrl', 'mediaData', 'mediaType', 'mediaMimetype', 'mediaFilename'] as const;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Validar criação de campanha; retorna mensagem de erro ou null
+export function validateCampaignInput(input: CampaignInput): string | null {
+  if (!input.name || typeof input.name !== 'string' || !input.name.trim()) {
+    return 'name is required';
+  }
+  if (!Array.isArray(input.recipients) || input.recipients.length === 0) {
+    return 'recipients must be a non-empty array of { phone, variables }';
+  }
+  if (input.recipients.length > MAX_RECIPIENTS) {
+    return `recipients must have at most ${MAX_RECIPIENTS} entries`;
+  }
+
+  const contentError = validateSendMessageInput({ phone: 'campaign', ...pickTemplate(input) });
+  if (contentError) {
+    return contentError;
+  }
+
+  const variablesError = validateVariables(input.variables);
+  if (variablesError) {
+    return variablesError;
+  }
+
+  for (const [index, recipient] of input.recipients.entries()) {
+    if (!recipient || typeof recipient.phone !== 'string' || !recipient.phone.trim()) {
+      return `recipients[${index}].phone is required`;
+    }
+    const recipientError = validateVariables(recipient.variables, `recipients[${index}].variables`);
+    if (recipientError) {
+      return recipientError;
+    }
+    // Variáveis faltando seriam enviadas como "{{nome}}" ao cliente
+    const missing = getMissingVariables(input.message, { ...input.variables, ...recipient.variables });
+    if (missing.length > 0) {
+      return `recipients[${index}] is missing variables: ${missing.join(', ')}`;
+    }
+  }
+
+  if (input.timezone !== undefined && (typeof input.timezone !== 'string' || !isValidTimeZone(input.timezone))) {
+    return 'timezone must be a valid IANA time zone (e.g. America/Sao_Paulo)';
+  }
+  const timezone = input.timezone || DEFAULT_TIMEZONE;
+  for (const field of ['startAt', 'endAt'] as const) {
+    if (input[field] !== undefined && (typeof input[field] !== 'string' || !parseDateInTimeZone(input[field]!, timezone))) {
+      return `${field} must be an ISO 8601 date`;
+    }
+  }
+  if (input.endAt && parseDateInTimeZone(input.endAt, timezone)!.getTime() <= Date.now()) {
+    return 'endAt must be in the future';
+  }
+  for (const field of ['dailyStart', 'dailyEnd'] as const) {
+    if (input[field] !== undefined && (typeof input[field] !== 'string' || !TIME_PATTERN.test(input[field]!))) {
+      return `${field} must be a time in HH:MM format`;
+    }
+  }
+  if ((input.dailyStart === undefined) !== (input.dailyEnd === undefined)) {
+    return 'dailyStart and dailyEnd must be informed together';
+  }
+  if (input.dailyStart !== undefined && input.dailyStart === input.dailyEnd) {
+    return 'dailyStart and dailyEnd must be different (the daily window would be empty)';
+  }
+  if (input.messagesPerMinute !== undefined
+    && (typeof input.messagesPerMinute !== 'number' || input.messagesPerMinute <= 0 || input.messagesPerMinute > MAX_MESSAGES_PER_MINUTE)) {
+    return `messagesPerMinute must be a number between 1 and ${MAX_MESSAGES_PER_MINUTE}`;
+  }
+  if (input.jitterSeconds !== undefined && (typeof input.jitterSeconds !== 'number' || input.jitterSeconds < 0)) {
+    return 'jitterSeconds must be a non-negative number';
+  }
+  return null;
+}
+
+function pickTemplate(input: CampaignInput): CampaignTemplate {
+  const template: Record<string, unknown> = {};
+  for (const field of TEMPLATE_FIELDS) {
+    if (input[field] !== undefined) {
+      template[field] = input[field];
+    }
+  }
+  return template as CampaignTemplate;
+}
+
+function formatCampaign(row: CampaignRow) {
+  const schedule = JSON.parse(row.schedule) as CampaignSchedule;
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    name: row.name,
+    status: row.status,
+    template: JSON.parse(row.template) as CampaignTemplate,
+    startAt: new Date(schedule.startAt).toISOString(),
+    endAt: schedule.endAt ? new Date(schedule.endAt).toISOString() : undefined,
+    timezone: schedule.timezone,
+    dailyStart: schedule.dailyStart,
+    dailyEnd: schedule.dailyEnd,
+    messagesPerMinute: schedule.messagesPerMinute,
+    jitterSeconds: schedule.jitterSeconds,
+    progress: getCampaignProgress(row),
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+    completedAt: row.completed_at ? new Date(row.completed_at).toISOString() : undefined,
+  };
+}
+
+export type Campaign = ReturnType<typeof formatCampaign>;
+
+// Progresso: destinatários por status + entregues/lidas (recibos das mensagens enviadas)
+function getCampaignProgress(row: CampaignRow) {
+  const counts = db.prepare(`
+    SELECT status, COUNT(*) AS count FROM campaign_recipients WHERE campaign_id = ? GROUP BY status
+  `).all(row.id) as { status: CampaignRecipientStatus; count: number }[];
+
+  const acks = db.prepare(`
+    SELECT
+      SUM(CASE WHEN ack >= @delivered THEN 1 ELSE 0 END) AS delivered,
+      SUM(CASE WHEN ack >= @read THEN 1 ELSE 0 END) AS read
+    FROM (
+      SELECT MAX(h.status) AS ack
+      FROM campaign_recipients r
+      JOIN message_status_history h ON h.session_id = @sessionId AND h.message_id = r.message_id
+      WHERE r.campaign_id = @campaignId AND r.status = 'sent'
+      GROUP BY r.position
+    )
+  `).get({
+    sessionId: row.session_id,
+    campaignId: row.id,
+    delivered: proto.WebMessageInfo.Status.DELIVERY_ACK,
+    read: proto.WebMessageInfo.Status.READ,
+  }) as { delivered: number | null; read: number | null };
+
+  const byStatus = Object.fromEntries(counts.map(({ status, count }) => [status, count])) as Partial<Record<CampaignRecipientStatus, number>>;
+  return {
+    total: counts.reduce((sum, { count }) => sum + count, 0),
+    pending: (byStatus.pending || 0) + (byStatus.sending || 0),
+    sent: byStatus.sent || 0,
+    failed: byStatus.failed || 0,
+    notOnWhatsApp: byStatus.not_on_whatsapp || 0,
+    optedOut: byStatus.opted_out || 0,
+    skipped: byStatus.skipped || 0,
+    delivered: acks.delivered || 0,
+    read: acks.read || 0,
+  };
+}
+
+function getRow(sessionId: string, id: string): CampaignRow | undefined {
+  return db.prepare('SELECT * FROM campaigns WHERE session_id = ? AND id = ?').get(sessionId, id) as CampaignRow | undefined;
+}
+
+// Criar campanha (input já validado); destinatários repetidos entram uma única vez
+export function createCampaign(sessionId: string, input: CampaignInput): Campaign {
+  const timezone = input.timezone || DEFAULT_TIMEZONE;
+  const now = Date.now();
+  const schedule: CampaignSchedule = {
+    startAt: input.startAt ? parseDateInTimeZone(input.startAt, timezone)!.getTime() : now,
+    endAt: input.endAt ? parseDateInTimeZone(input.endAt, timezone)!.getTime() : undefined,
+    timezone,
+    dailyStart: input.dailyStart,
+    dailyEnd: input.dailyEnd,
+    messagesPerMinute: input.messagesPerMinute || DEFAULT_MESSAGES_PER_MINUTE,
+    jitterSeconds: input.jitterSeconds || 0,
+  };
+
+  const row: CampaignRow = {
+    id: randomUUID(),
+    session_id: sessionId,
+    name: input.name!.trim(),
+    template: JSON.stringify(pickTemplate(input)),
+    schedule: JSON.stringify(schedule),
+    status: 'running',
+    next_send_at: schedule.startAt,
+    created_at: now,
+    updated_at: now,
+    completed_at: null,
+  };
+
+  const insertRecipient = db.prepare(`
+    INSERT INTO campaign_recipients (campaign_id, position, jid, variables) VALUES (?, ?, ?, ?)
+  `);
+
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO campaigns (id, session_id, name, template, schedule, status, next_send_at, created_at, updated_at)
+      VALUES (@id, @session_id, @name, @template, @schedule, @status, @next_send_at, @created_at, @updated_at)
+    `).run(row);
+
+    const seen = new Set<string>();
+    let position = 0;
+    for (const recipient of input.recipients!) {
+      // Números podem vir formatados (+55 (11) 99999-9999)
+      const phone = recipient.phone.trim();
+      const jid = toJid(phone.includes('@') ? phone : phone.replace(/\D/g, ''));
+      if (seen.has(jid)) {
+        continue;
+      }
+      seen.add(jid);
+      insertRecipient.run(row.id, position++, jid, JSON.stringify({ ...input.variables, ...recipient.variables }));
+    }
+  })();
+
+  logger.info({ sessionId, campaignId: row.id, name: row.name }, '📣 Campaign created');
+  return formatCampaign(row);
+}
+
+export function getCampaign(sessionId: string, id: string): Campaign | null {
+  const row = getRow(sessionId, id);
+  return row ? formatCampaign(row) : null;
+}
+
+export function listCampaigns(sessionId: string, options: { status?: CampaignStatus; limit: number; offset: number }) {
+  const { status, limit, offset } = options;
+
+  const rows = db.prepare(`
+    SELECT * FROM campaigns
+    WHERE session_id = @sessionId AND (@status IS NULL OR status = @status)
+    ORDER BY created_at DESC
+    LIMIT @limit OFFSET @offset
+  `).all({ sessionId, status: status || null, limit, offset }) as CampaignRow[];
+
+  const { total } = db.prepare(`
+    SELECT COUNT(*) AS total FROM campaigns
+    WHERE session_id = @sessionId AND (@status IS NULL OR status = @status)
+  `).get({ sessionId, status: status || null }) as { total: number };
+
+  return { campaigns: rows.map(formatCampaign), total };
+}
+
+// Destinatários da campanha com o resultado de cada envio
+export function listCampaignRecipients(campaignId: string, options: { status?: CampaignRecipientStatus; limit: number; offset: number }) {
+  const { status, limit, offset } = options;
+
+  const rows = db.prepare(`
+    SELECT * FROM campaign_recipients
+    WHERE campaign_id = @campaignId AND (@status IS NULL OR status = @status)
+    ORDER BY position
+    LIMIT @limit OFFSET @offset
+  `).all({ campaignId, status: status || null, limit, offset }) as RecipientRow[];
+
+  const { total } = db.prepare(`
+    SELECT COUNT(*) AS total FROM campaign_recipients
+    WHERE campaign_id = @campaignId AND (@status IS NULL OR status = @status)
+  `).get({ campaignId, status: status || null }) as { total: number };
+
+  const recipients = rows.map(row => ({
+    chatId: toCrmChatId(row.jid),
+    status: row.status,
+    variables: JSON.parse(row.variables) as TemplateVariables,
+    messageId: row.message_id || undefined,
+    error: row.error || undefined,
+    sentAt: row.sent_at ? new Date(row.sent_at).toISOString() : undefined,
+  }));
+  return { recipients, total };
+}
+
+// Alterar status (pause/resume/cancel); retorna a campanha ou null se a transição não é permitida
+export function setCampaignStatus(sessionId: string, id: string, action: 'pause' | 'resume' | 'cancel'): Campaign | null {
+  const row = getRow(sessionId, id);
+  if (!row) {
+    return null;
+  }
+
+  const now = Date.now();
+  const transitions: Record<typeof action, { from: CampaignStatus[]; to: CampaignStatus }> = {
+    pause: { from: ['running'], to: 'paused' },
+    resume: { from: ['paused'], to: 'running' },
+    cancel: { from: ['running', 'paused'], to: 'cancelled' },
+  };
+  const { from, to } = transitions[action];
+  if (!from.includes(row.status)) {
+    return null;
+  }
+
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE campaigns SET status = ?, next_send_at = MAX(next_send_at, ?), updated_at = ?, completed_at = ? WHERE id = ?
+    `).run(to, now, now, to === 'cancelled' ? now : null, id);
+    if (to === 'cancelled') {
+      db.prepare(`
+        UPDATE campaign_recipients SET status = 'skipped', error = 'Campaign cancelled' WHERE campaign_id = ? AND status = 'pending'
+      `).run(id);
+    }
+  })();
+
+  logger.info({ sessionId, campaignId: id, status: to }, '📣 Campaign status changed');
+  return getCampaign(sessionId, id);
+}
+
+// Apagar campanhas de uma sessão
+export function deleteSessionCampaigns(sessionId: string) {
+  db.transaction(() => {
+    db.prepare('DELETE FROM campaign_recipients WHERE campaign_id IN (SELECT id FROM campaigns WHERE session_id = ?)').run(sessionId);
+    db.prepare('DELETE FROM campaigns WHERE session_id = ?').run(sessionId);
+  })();
+}
+
+// Dentro da janela diária? (dailyEnd menor que dailyStart = janela que passa da meia-noite)
+function isWithinDailyWindow(schedule: CampaignSchedule, now: number): boolean {
+  if (!schedule.dailyStart || !schedule.dailyEnd) {
+    return true;
+  }
+  const { hour, minute } = getZonedParts(new Date(now), schedule.timezone);
+  const current = `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+  return schedule.dailyStart <= schedule.dailyEnd
+    ? current >= schedule.dailyStart && current < schedule.dailyEnd
+    : current >= schedule.dailyStart || current < schedule.dailyEnd;
+}
+
+function completeCampaign(row: CampaignRow, reason?: string) {
+  const now = Date.now();
+  db.transaction(() => {
+    if (reason) {
+      db.prepare(`
+        UPDATE campaign_recipients SET status = 'skipped', error = ? WHERE campaign_id = ? AND status = 'pending'
+      `).run(reason, row.id);
+    }
+    db.prepare(`UPDATE campaigns SET status = 'completed', completed_at = ?, updated_at = ? WHERE id = ?`).run(now, now, row.id);
+  })();
+
+  const progress = getCampaignProgress(row);
+  publishEvent(row.session_id, 'campaign.completed', {
+    campaignId: row.id,
+    name: row.name,
+    progress,
+    reason,
+    timestamp: new Date(now).toISOString(),
+  });
+  logger.info({ sessionId: row.session_id, campaignId: row.id, ...progress }, '🏁 Campaign completed');
+}
+
+// Enviar para o próximo destinatário da campanha
+async function processCampaign(row: CampaignRow) {
+  const schedule = JSON.parse(row.schedule) as CampaignSchedule;
+  const now = Date.now();
+
+  if (schedule.endAt && now >= schedule.endAt) {
+    completeCampaign(row, 'Send window ended');
+    return;
+  }
+
+  const session = getSession(row.session_id);
+  if (!session?.socket || session.connectionStatus !== 'connected' || !isWithinDailyWindow(schedule, now)) {
+    return;
+  }
+
+  const recipient = db.prepare(`
+    SELECT * FROM campaign_recipients WHERE campaign_id = ? AND status = 'pending' ORDER BY position LIMIT 1
+  `).get(row.id) as RecipientRow | undefined;
+  if (!recipient) {
+    completeCampaign(row);
+    return;
+  }
+
+  db.prepare(`UPDATE campaign_recipients SET status = 'sending' WHERE campaign_id = ? AND position = ?`).run(row.id, recipient.position);
+  const finish = (status: CampaignRecipientStatus, result: { messageId?: string; error?: string } = {}) => {
+    db.prepare(`
+      UPDATE campaign_recipients SET status = ?, message_id = ?, error = ?, sent_at = ? WHERE campaign_id = ? AND position = ?
+    `).run(status, result.messageId || null, result.error || null, status === 'sent' ? Date.now() : null, row.id, recipient.position);
+  };
+
+  try {
+    // Contatos com opt-out (LGPD) não recebem campanhas; verificado no envio porque o registro pode mudar
+    if (isOptedOut(recipient.jid)) {
+      finish('opted_out');
+      return;
+    }
+
+    // Números sem WhatsApp não contam como falha de envio
+    let jid = recipient.jid;
+    if (!jid.endsWith('@g.us')) {
+      const [result] = await session.socket.onWhatsApp(jid) || [];
+      if (!result?.exists) {
+        finish('not_on_whatsapp');
+        return;
+      }
+      jid = result.jid;
+    }
+
+    const template = JSON.parse(row.template) as CampaignTemplate;
+    const variables = JSON.parse(recipient.variables) as TemplateVariables;
+    const { messageId } = await sendWhatsAppMessage(session, {
+      ...template,
+      phone: jid,
+      message: template.message ? renderPlaceholders(template.message, variables) : undefined,
+    }, undefined, { waitForSlot: true });
+
+    finish('sent', { messageId });
+    session.logger.info({ campaignId: row.id, position: recipient.position, messageId }, '📣 Campaign message sent');
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    // Conexão caiu: o destinatário volta para a fila
+    if (session.connectionStatus !== 'connected') {
+      finish('pending');
+      return;
+    }
+
+    finish('failed', { error: errorMessage });
+    session.logger.warn({ campaignId: row.id, position: recipient.position, error: errorMessage }, '⚠️ Campaign message failed');
+  } finally {
+    // Próximo envio: intervalo do ritmo configurado + atraso aleatório
+    const delay = 60_000 / schedule.messagesPerMinute + Math.random() * schedule.jitterSeconds * 1000;
+    db.prepare(`UPDATE campaigns SET next_send_at = ?, updated_at = ? WHERE id = ?`).run(Date.now() + Math.round(delay), Date.now(), row.id);
+  }
+}
+
+export async function processCampaigns() {
+  const due = db.prepare(`
+    SELECT * FROM campaigns WHERE status = 'running' AND next_send_at <= ? ORDER BY next_send_at
+  `).all(Date.now()) as CampaignRow[];
+
+  // Campanhas em paralelo entre si; cada uma envia um destinatário por vez
+  await Promise.all(due.filter(row => !busyCampaigns.has(row.id)).map(async (row) => {
+    busyCampaigns.add(row.id);
+    try {
+      await processCampaign(row);
+    } catch (error) {
+      logger.error({ err: error, campaignId: row.id }, 'Error processing campaign');
+    } finally {
+      busyCampaigns.delete(row.id);
+    }
+  }));
+}
+
+export function startCampaignWorker() {
+  if (campaignInterval) {
+    clearInterval(campaignInterval);
+  }
+
+  // Envios interrompidos por um reinício: o resultado é desconhecido, então não reenviamos
+  const interrupted = db.prepare(`
+    UPDATE campaign_recipients SET status = 'failed', error = 'Interrupted while sending (server restarted)' WHERE status = 'sending'
+  `).run();
+  if (interrupted.changes > 0) {
+    logger.warn({ interrupted: interrupted.changes }, '⚠️ Campaign messages interrupted by restart marked as failed');
+  }
+
+  campaignInterval = setInterval(() => {
+    processCampaigns().catch(err => {
+      logger.error({ err }, 'Error processing campaigns');
+    });
+  }, CAMPAIGN_INTERVAL_MS);
+
+  const { running } = db
+    .prepare(`SELECT COUNT(*) AS running FROM campaigns WHERE status = 'running'`)
+    .get() as { running: number };
+  logger.info({ running }, 'Campaign worker started');
+}
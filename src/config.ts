@@ -0,0 +1,127 @@
+import dotenv from 'dotenv';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import pino from 'pino';
+
+// ESM __dirname equivalent
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+dotenv.config();
+
+export const PORT = parseInt(process.env.PORT || '8000', 10);
+export const API_KEY = process.env.API_KEY || '';
+export const AUTH_DIR = process.env.AUTH_DIR || join(__dirname, 'auth_info');
+export const LOG_LEVEL = (process.env.LOG_LEVEL || 'info') as pino.Level;
+export const CRM_WEBHOOK_URL = process.env.CRM_WEBHOOK_URL || 'http://localhost:3000/api/whatsapp/save-message';
+
+// Diretório de dados persistentes (banco SQLite de mensagens, filas, etc.)
+export const DATA_DIR = process.env.DATA_DIR || join(__dirname, 'data');
+
+// Entrega de webhooks (fila persistente com retentativas)
+export const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '10', 10);
+export const WEBHOOK_RETRY_BASE_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '2000', 10);
+export const WEBHOOK_RETRY_MAX_DELAY_MS = parseInt(process.env.WEBHOOK_RETRY_MAX_DELAY_MS || '600000', 10);
+export const WEBHOOK_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10);
+
+// Autenticação dos webhooks: segredo HMAC, bearer token e headers fixos (JSON)
+export const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || '';
+export const WEBHOOK_BEARER_TOKEN = process.env.WEBHOOK_BEARER_TOKEN || '';
+export const WEBHOOK_HEADERS = process.env.WEBHOOK_HEADERS || '';
+
+// Registro de webhooks (assinaturas por evento) e eventos entregues ao CRM_WEBHOOK_URL
+export const WEBHOOKS_FILE = process.env.WEBHOOKS_FILE || join(DATA_DIR, 'webhooks.json');
+export const CRM_WEBHOOK_EVENTS = (process.env.CRM_WEBHOOK_EVENTS || 'message.received,message.sent')
+  .split(',')
+  .map(event => event.trim())
+  .filter(Boolean);
+
+// Mensagens de grupo: ativar ingestão e filtrar por ID do grupo (separados por vírgula)
+export const INGEST_GROUP_MESSAGES = process.env.INGEST_GROUP_MESSAGES === 'true';
+export const GROUP_ALLOWLIST = (process.env.GROUP_ALLOWLIST || '')
+  .split(',')
+  .map(groupId => groupId.trim())
+  .filter(Boolean);
+export const GROUP_DENYLIST = (process.env.GROUP_DENYLIST || '')
+  .split(',')
+  .map(groupId => groupId.trim())
+  .filter(Boolean);
+
+// Armazenamento de mídia recebida ('local' ou 's3') e URLs assinadas de download
+export const MEDIA_STORAGE = (process.env.MEDIA_STORAGE || 'local') as 'local' | 's3';
+export const MEDIA_DIR = process.env.MEDIA_DIR || join(DATA_DIR, 'media');
+export const MEDIA_URL_TTL_SECONDS = parseInt(process.env.MEDIA_URL_TTL_SECONDS || '86400', 10);
+export const MEDIA_SIGNING_SECRET = process.env.MEDIA_SIGNING_SECRET || '';
+export const PUBLIC_BASE_URL = (process.env.PUBLIC_BASE_URL || `http://localhost:${PORT}`).replace(/\/+$/, '');
+// Manter mediaData (base64) nos webhooks, para CRMs que ainda não usam mediaUrl
+export const WEBHOOK_MEDIA_BASE64 = process.env.WEBHOOK_MEDIA_BASE64 === 'true';
+
+// S3 ou compatível (MinIO, R2, ...)
+export const S3_BUCKET = process.env.S3_BUCKET || '';
+export const S3_REGION = process.env.S3_REGION || 'us-east-1';
+export const S3_ENDPOINT = process.env.S3_ENDPOINT || '';
+export const S3_ACCESS_KEY_ID = process.env.S3_ACCESS_KEY_ID || '';
+export const S3_SECRET_ACCESS_KEY = process.env.S3_SECRET_ACCESS_KEY || '';
+export const S3_FORCE_PATH_STYLE = process.env.S3_FORCE_PATH_STYLE === 'true';
+
+// Envio de mídia: limite do corpo JSON (base64) e limites por tipo para uploads multipart (MB)
+export const JSON_BODY_LIMIT = process.env.JSON_BODY_LIMIT || '25mb';
+export const UPLOAD_LIMITS_MB: Record<string, number> = {
+  image: parseFloat(process.env.UPLOAD_LIMIT_IMAGE_MB || '16'),
+  video: parseFloat(process.env.UPLOAD_LIMIT_VIDEO_MB || '64'),
+  audio: parseFloat(process.env.UPLOAD_LIMIT_AUDIO_MB || '16'),
+  sticker: parseFloat(process.env.UPLOAD_LIMIT_STICKER_MB || '1'),
+  document: parseFloat(process.env.UPLOAD_LIMIT_DOCUMENT_MB || '100'),
+};
+
+// Limite de envio por número (0 = desativado). Acima do limite o envio aguarda até SEND_MAX_WAIT_MS
+// (modo "queue") ou é recusado com 429 (modo "reject")
+export const SEND_RATE_PER_MINUTE = parseInt(process.env.SEND_RATE_PER_MINUTE || '0', 10);
+export const SEND_MIN_INTERVAL_PER_CHAT_MS = parseInt(process.env.SEND_MIN_INTERVAL_PER_CHAT_MS || '0', 10);
+export const SEND_JITTER_MS = parseInt(process.env.SEND_JITTER_MS || '0', 10);
+export const SEND_THROTTLE_MODE = (process.env.SEND_THROTTLE_MODE || 'queue') as 'queue' | 'reject';
+export const SEND_MAX_WAIT_MS = parseInt(process.env.SEND_MAX_WAIT_MS || '30000', 10);
+// "digitando..." antes de enviar textos, proporcional ao tamanho
+export const SEND_TYPING_SIMULATION = process.env.SEND_TYPING_SIMULATION === 'true';
+export const SEND_TYPING_MS_PER_CHAR = parseInt(process.env.SEND_TYPING_MS_PER_CHAR || '50', 10);
+export const SEND_TYPING_MAX_MS = parseInt(process.env.SEND_TYPING_MAX_MS || '5000', 10);
+
+// Fila de saída: envios com queueIfDisconnected aguardam a reconexão por até OUTBOX_TTL_SECONDS
+export const OUTBOX_TTL_SECONDS = parseInt(process.env.OUTBOX_TTL_SECONDS || '600', 10);
+export const OUTBOX_DIR = process.env.OUTBOX_DIR || join(DATA_DIR, 'outbox');
+
+// Modelos de mensagem: diretório dos arquivos de mídia anexados
+export const TEMPLATES_DIR = process.env.TEMPLATES_DIR || join(DATA_DIR, 'templates');
+
+// Fuso horário padrão para datas sem offset (agendamentos)
+export const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE || 'America/Sao_Paulo';
+
+// Regras de resposta automática (recarregadas quando o arquivo muda)
+export const RULES_FILE = process.env.RULES_FILE || join(DATA_DIR, 'rules.json');
+
+// Horário de atendimento, ex.: "mon-fri 09:00-18:00, sat 09:00-12:00" (vazio = sempre aberto)
+// Alterações feitas pela API ficam em BUSINESS_HOURS_FILE e têm precedência sobre estes valores
+export const BUSINESS_HOURS = process.env.BUSINESS_HOURS || '';
+export const BUSINESS_TIMEZONE = process.env.BUSINESS_TIMEZONE || DEFAULT_TIMEZONE;
+export const BUSINESS_HOLIDAYS = (process.env.BUSINESS_HOLIDAYS || '')
+  .split(',')
+  .map(date => date.trim())
+  .filter(Boolean);
+export const BUSINESS_HOURS_FILE = process.env.BUSINESS_HOURS_FILE || join(DATA_DIR, 'business-hours.json');
+
+// Mensagem de ausência fora do horário (vazio = desativada), no máximo uma vez por chat a cada intervalo
+export const AWAY_MESSAGE = process.env.AWAY_MESSAGE || '';
+export const AWAY_MESSAGE_INTERVAL_MINUTES = parseInt(process.env.AWAY_MESSAGE_INTERVAL_MINUTES || '720', 10);
+
+// Consentimento (LGPD): palavras-chave de opt-out/opt-in (mensagem inteira, sem diferenciar acentos e maiúsculas)
+// e confirmações enviadas ao contato (vazio = sem confirmação)
+export const CONSENT_OPT_OUT_KEYWORDS = (process.env.CONSENT_OPT_OUT_KEYWORDS || 'SAIR,PARAR,STOP,CANCELAR,DESCADASTRAR')
+  .split(',')
+  .map(keyword => keyword.trim())
+  .filter(Boolean);
+export const CONSENT_OPT_IN_KEYWORDS = (process.env.CONSENT_OPT_IN_KEYWORDS || 'VOLTAR')
+  .split(',')
+  .map(keyword => keyword.trim())
+  .filter(Boolean);
+export const CONSENT_OPT_OUT_REPLY = process.env.CONSENT_OPT_OUT_REPLY ?? 'Pronto! Você não receberá mais nossas mensagens. Se mudar de ideia, responda VOLTAR.';
+export const CONSENT_OPT_IN_REPLY = process.env.CONSENT_OPT_IN_REPLY ?? 'Tudo certo! Você voltará a receber nossas mensagens.';
@@ -0,0 +1,373 @@
+import { WASocket, WAMessageKey, jidNormalizedUser, proto } from '@whiskeysockets/baileys';
+import { db } from './db.js';
+import {
+  CONSENT_OPT_OUT_KEYWORDS,
+  CONSENT_OPT_IN_KEYWORDS,
+  CONSENT_OPT_OUT_REPLY,
+  CONSENT_OPT_IN_REPLY,
+} from './config.js';
+import { logger } from './logger.js';
+import { publishEvent } from './events.js';
+import { toJid, toCrmChatId } from './jid.js';
+import { sendWhatsAppMessage } from './send.js';
+import type { WhatsAppSession } from './sessions.js';
+
+// Registro de consentimento (LGPD): contatos que responderam SAIR/PARAR não recebem mensagens
+// não transacionais (envios sem transactional: true e campanhas). Vale para todas as sessões.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS consent_registry (
+    jid TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    source TEXT NOT NULL,
+    keyword TEXT,
+    session_id TEXT,
+    reason TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_consent_registry_status ON consent_registry (status, updated_at);
+`);
+
+export const CONSENT_STATUSES = ['opted_out', 'opted_in'] as const;
+export const CONSENT_SOURCES = ['keyword', 'api', 'import'] as const;
+
+export type ConsentStatus = typeof CONSENT_STATUSES[number];
+export type ConsentSource = typeof CONSENT_SOURCES[number];
+
+export interface ConsentEntry {
+  chatId: string;
+  status: ConsentStatus;
+  source: ConsentSource;
+  keyword?: string;
+  sessionId?: string;
+  reason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Linha de POST /consent/import
+export interface ConsentImportEntry {
+  phone: string;
+  status: ConsentStatus;
+  reason?: string;
+  updatedAt?: string;
+}
+
+interface ConsentRow {
+  jid: string;
+  status: ConsentStatus;
+  source: ConsentSource;
+  keyword: string | null;
+  session_id: string | null;
+  reason: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+function formatEntry(row: ConsentRow): ConsentEntry {
+  return {
+    chatId: toCrmChatId(row.jid),
+    status: row.status,
+    source: row.source,
+    keyword: row.keyword || undefined,
+    sessionId: row.session_id || undefined,
+    reason: row.reason || undefined,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+  };
+}
+
+// Telefone/chatId -> JID usado no registro
+export function toConsentJid(phoneOrJid: string): string {
+  const value = phoneOrJid.trim();
+  return toJid(value.includes('@') ? value : value.replace(/\D/g, ''));
+}
+
+// Celulares brasileiros aparecem com e sem o nono dígito (5511987654321 / 551187654321)
+function getJidVariants(jid: string): string[] {
+  const [user, server] = jid.split('@');
+  if (server !== 's.whatsapp.net' || !user.startsWith('55')) {
+    return [jid];
+  }
+  if (user.length === 13 && user[4] === '9') {
+    return [jid, `${user.slice(0, 4)}${user.slice(5)}@${server}`];
+  }
+  if (user.length === 12 && /[6-9]/.test(user[4])) {
+    return [jid, `${user.slice(0, 4)}9${user.slice(4)}@${server}`];
+  }
+  return [jid];
+}
+
+function getRow(phoneOrJid: string): ConsentRow | undefined {
+  const variants = getJidVariants(toConsentJid(phoneOrJid));
+  return db.prepare(`
+    SELECT * FROM consent_registry WHERE jid IN (${variants.map(() => '?').join(', ')}) ORDER BY updated_at DESC LIMIT 1
+  `).get(...variants) as ConsentRow | undefined;
+}
+
+export function getConsent(phoneOrJid: string): ConsentEntry | null {
+  const row = getRow(phoneOrJid);
+  return row ? formatEntry(row) : null;
+}
+
+// Contato descadastrado? (grupos nunca)
+export function isOptedOut(phoneOrJid: string): boolean {
+  if (phoneOrJid.endsWith('@g.us')) {
+    return false;
+  }
+  return getRow(phoneOrJid)?.status === 'opted_out';
+}
+
+// Registrar opt-out/opt-in; substitui o registro anterior do contato (inclusive a variante sem/com nono dígito)
+export function setConsent(
+  phoneOrJid: string,
+  status: ConsentStatus,
+  details: { source: ConsentSource; keyword?: string; sessionId?: string; reason?: string; updatedAt?: number },
+): ConsentEntry {
+  const jid = toConsentJid(phoneOrJid);
+  const previous = getRow(jid);
+  const now = Date.now();
+
+  db.transaction(() => {
+    if (previous && previous.jid !== jid) {
+      db.prepare('DELETE FROM consent_registry WHERE jid = ?').run(previous.jid);
+    }
+    db.prepare(`
+      INSERT INTO consent_registry (jid, status, source, keyword, session_id, reason, created_at, updated_at)
+      VALUES (@jid, @status, @source, @keyword, @sessionId, @reason, @createdAt, @updatedAt)
+      ON CONFLICT (jid) DO UPDATE SET
+        status = excluded.status, source = excluded.source, keyword = excluded.keyword,
+        session_id = excluded.session_id, reason = excluded.reason, updated_at = excluded.updated_at
+    `).run({
+      jid,
+      status,
+      source: details.source,
+      keyword: details.keyword || null,
+      sessionId: details.sessionId || null,
+      reason: details.reason || null,
+      createdAt: previous?.created_at ?? now,
+      updatedAt: details.updatedAt ?? now,
+    });
+  })();
+
+  return formatEntry(getRow(jid)!);
+}
+
+export function listConsent(options: { status?: ConsentStatus; limit: number; offset: number }) {
+  const { status, limit, offset } = options;
+
+  const rows = db.prepare(`
+    SELECT * FROM consent_registry
+    WHERE (@status IS NULL OR status = @status)
+    ORDER BY updated_at DESC
+    LIMIT @limit OFFSET @offset
+  `).all({ status: status || null, limit, offset }) as ConsentRow[];
+
+  const { total } = db.prepare(`
+    SELECT COUNT(*) AS total FROM consent_registry WHERE (@status IS NULL OR status = @status)
+  `).get({ status: status || null }) as { total: number };
+
+  return { entries: rows.map(formatEntry), total };
+}
+
+// Registro completo (GET /consent/export)
+export function exportConsent(status?: ConsentStatus): ConsentEntry[] {
+  const rows = db.prepare(`
+    SELECT * FROM consent_registry WHERE (@status IS NULL OR status = @status) ORDER BY updated_at
+  `).all({ status: status || null }) as ConsentRow[];
+  return rows.map(formatEntry);
+}
+
+function escapeCsv(value: string | undefined): string {
+  if (!value) {
+    return '';
+  }
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function formatConsentCsv(entries: ConsentEntry[]): string {
+  const header = 'phone,status,source,keyword,sessionId,reason,updatedAt';
+  const lines = entries.map(entry => [
+    entry.chatId.replace('@c.us', ''),
+    entry.status,
+    entry.source,
+    entry.keyword,
+    entry.sessionId,
+    entry.reason,
+    entry.updatedAt,
+  ].map(escapeCsv).join(','));
+  return [header, ...lines].join('\n') + '\n';
+}
+
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+  return fields.map(field => field.trim());
+}
+
+// CSV com cabeçalho (phone,status[,reason][,updatedAt]; demais colunas ignoradas) -> entradas de importação
+export function parseConsentCsv(csv: string): ConsentImportEntry[] {
+  const [headerLine, ...lines] = csv.split(/\r?\n/).filter(line => line.trim());
+  if (!headerLine) {
+    return [];
+  }
+  const header = splitCsvLine(headerLine).map(column => column.toLowerCase());
+  return lines.map(line => {
+    const fields = splitCsvLine(line);
+    const get = (column: string) => {
+      const index = header.indexOf(column.toLowerCase());
+      return index === -1 ? undefined : fields[index] || undefined;
+    };
+    return {
+      phone: get('phone') || '',
+      status: get('status') as ConsentStatus,
+      reason: get('reason'),
+      updatedAt: get('updatedAt'),
+    };
+  });
+}
+
+// Validar uma entrada de importação; retorna mensagem de erro ou null
+function validateImportEntry(entry: ConsentImportEntry): string | null {
+  if (!entry || typeof entry.phone !== 'string' || !entry.phone.trim()) {
+    return 'phone is required';
+  }
+  if (!CONSENT_STATUSES.includes(entry.status)) {
+    return `status must be one of: ${CONSENT_STATUSES.join(', ')}`;
+  }
+  if (entry.reason !== undefined && typeof entry.reason !== 'string') {
+    return 'reason must be a string';
+  }
+  if (entry.updatedAt !== undefined && (typeof entry.updatedAt !== 'string' || isNaN(Date.parse(entry.updatedAt)))) {
+    return 'updatedAt must be an ISO date';
+  }
+  return null;
+}
+
+// Importar registros; um registro mais recente já existente não é sobrescrito
+export function importConsent(entries: ConsentImportEntry[]) {
+  let imported = 0;
+  let skipped = 0;
+  const errors: { index: number; error: string }[] = [];
+
+  db.transaction(() => {
+    entries.forEach((entry, index) => {
+      const error = validateImportEntry(entry);
+      if (error) {
+        errors.push({ index, error });
+        return;
+      }
+
+      const updatedAt = entry.updatedAt ? Date.parse(entry.updatedAt) : Date.now();
+      const existing = getRow(entry.phone);
+      if (existing && existing.updated_at > updatedAt) {
+        skipped++;
+        return;
+      }
+
+      setConsent(entry.phone, entry.status, { source: 'import', reason: entry.reason, updatedAt });
+      imported++;
+    });
+  })();
+
+  return { imported, skipped, errors };
+}
+
+// Comparação sem acentos, pontuação e maiúsculas ("Sair." = "SAIR")
+function normalizeKeyword(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\p{L}\p{N} ]/gu, '').trim().replace(/\s+/g, ' ').toUpperCase();
+}
+
+const optOutKeywords = CONSENT_OPT_OUT_KEYWORDS.map(normalizeKeyword);
+const optInKeywords = CONSENT_OPT_IN_KEYWORDS.map(normalizeKeyword);
+
+// A mensagem inteira precisa ser a palavra-chave ("quero sair do grupo" não descadastra)
+export function detectConsentKeyword(text: string): ConsentStatus | null {
+  const normalized = normalizeKeyword(text);
+  if (!normalized) {
+    return null;
+  }
+  if (optOutKeywords.includes(normalized)) {
+    return 'opted_out';
+  }
+  if (optInKeywords.includes(normalized)) {
+    return 'opted_in';
+  }
+  return null;
+}
+
+// Chats @lid (Baileys v7): o registro usa o JID do número, que é o consultado pelos envios por telefone
+// (remoteJidAlt da mensagem ou o mapeamento LID -> número da sessão; sem nenhum dos dois, fica o LID)
+export async function resolveConsentJid(socket: WASocket, key: proto.IMessageKey): Promise<string> {
+  const remoteJid = key.remoteJid!;
+  if (!remoteJid.endsWith('@lid')) {
+    return remoteJid;
+  }
+
+  const alternative = (key as WAMessageKey).remoteJidAlt;
+  if (alternative && !alternative.endsWith('@lid')) {
+    return jidNormalizedUser(alternative);
+  }
+
+  try {
+    const phoneJid = await socket.signalRepository.lidMapping.getPNForLID(remoteJid);
+    if (phoneJid) {
+      return jidNormalizedUser(phoneJid);
+    }
+  } catch (error) {
+    logger.warn({ err: error, remoteJid }, '⚠️ Could not resolve phone number for LID');
+  }
+  logger.warn({ remoteJid }, '⚠️ Phone number unknown for LID - consent recorded for the LID only');
+  return remoteJid;
+}
+
+// Mensagem recebida com palavra-chave de opt-out/opt-in: registrar e avisar os webhooks.
+// Retorna o novo status ou null se a mensagem não é uma palavra-chave (ou opt-in de quem não saiu).
+export function recordConsentKeyword(session: WhatsAppSession, consentJid: string, text: string): ConsentStatus | null {
+  const status = detectConsentKeyword(text);
+  if (!status) {
+    return null;
+  }
+  // Opt-in só tem efeito para quem estava descadastrado
+  if (status === 'opted_in' && !isOptedOut(consentJid)) {
+    return null;
+  }
+
+  const entry = setConsent(consentJid, status, { source: 'keyword', keyword: text.trim(), sessionId: session.id });
+  publishEvent(session.id, 'consent.updated', { ...entry }, entry.chatId);
+  session.logger.info({ consentJid, status }, status === 'opted_out' ? '🚫 Contact opted out' : '✅ Contact opted in');
+  return status;
+}
+
+// Confirmação ao contato (transacional: vai mesmo para quem acabou de se descadastrar)
+export async function sendConsentConfirmation(session: WhatsAppSession, chatJid: string, status: ConsentStatus) {
+  const reply = status === 'opted_out' ? CONSENT_OPT_OUT_REPLY : CONSENT_OPT_IN_REPLY;
+  if (!reply) {
+    return;
+  }
+  await sendWhatsAppMessage(session, { phone: chatJid, message: reply, transactional: true }, undefined, { waitForSlot: true });
+  session.logger.info({ chatJid, status }, 'Consent confirmation sent');
+}
@@ -0,0 +1,13 @@
+import Database from 'better-sqlite3';
+import { join } from 'path';
+import fs from 'fs';
+import { DATA_DIR } from './config.js';
+
+// Garantir diretório de dados
+if (!fs.existsSync(DATA_DIR)) {
+  fs.mkdirSync(DATA_DIR, { recursive: true });
+}
+
+// Banco SQLite local compartilhado (cada módulo cria as próprias tabelas)
+export const db: Database.Database = new Database(join(DATA_DIR, 'store.db'));
+db.pragma('journal_mode = WAL');
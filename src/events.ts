@@ -0,0 +1,52 @@
+import { EventEmitter } from 'events';
+import { logger } from './logger.js';
+import { enqueueWebhook } from './webhooks.js';
+import { getMatchingSubscriptions, WebhookEventType } from './subscriptions.js';
+
+// Evento entregue aos clientes do stream em tempo real (/events)
+export interface StreamEvent {
+  event: string;
+  sessionId: string;
+  data: Record<string, unknown>;
+}
+
+const eventBus = new EventEmitter();
+eventBus.setMaxListeners(0); // Um listener por cliente conectado ao stream
+
+// Emitir apenas para o stream em tempo real (eventos que não são entregues via webhook)
+export function emitStreamEvent(sessionId: string, event: string, data: Record<string, unknown>) {
+  eventBus.emit('event', { event, sessionId, data } satisfies StreamEvent);
+}
+
+// Registrar listener do stream; retorna função para cancelar
+export function onStreamEvent(listener: (event: StreamEvent) => void): () => void {
+  eventBus.on('event', listener);
+  return () => {
+    eventBus.off('event', listener);
+  };
+}
+
+// Publicar evento para todas as assinaturas que o recebem (e para o stream em tempo real).
+// O corpo entregue é { event, sessionId, ...data }; orderingKey (ex.: chatId) mantém a ordem
+// das entregas de um mesmo chat - por padrão os eventos de uma sessão saem em ordem.
+export function publishEvent(sessionId: string, event: WebhookEventType, data: Record<string, unknown>, orderingKey?: string) {
+  const subscriptions = getMatchingSubscriptions(sessionId, event);
+
+  for (const subscription of subscriptions) {
+    try {
+      enqueueWebhook({
+        subscriptionId: subscription.id,
+        sessionId,
+        event,
+        url: subscription.url,
+        orderingKey: orderingKey || sessionId,
+        body: { event, sessionId, ...data },
+      });
+    } catch (error) {
+      logger.error({ err: error, sessionId, event, subscriptionId: subscription.id }, 'Error queueing webhook event');
+    }
+  }
+
+  emitStreamEvent(sessionId, event, data);
+  logger.debug({ sessionId, event, subscriptions: subscriptions.length }, 'Event published');
+}
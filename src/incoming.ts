@@ -0,0 +1,485 @@
+import { WASocket, GroupMetadata, downloadMediaMessage, getContentType, normalizeMessageContent, proto } from '@whiskeysockets/baileys';
+import pino from 'pino';
+import { INGEST_GROUP_MESSAGES, GROUP_ALLOWLIST, GROUP_DENYLIST, WEBHOOK_MEDIA_BASE64 } from './config.js';
+import { logger } from './logger.js';
+import { publishEvent } from './events.js';
+import { parseVCard, ParsedVCard } from './vcard.js';
+import { saveMedia, getSignedMediaUrl } from './media.js';
+import { sendAwayMessageIfNeeded } from './business-hours.js';
+import { detectConsentKeyword, resolveConsentJid, recordConsentKeyword, sendConsentConfirmation, ConsentStatus } from './consent.js';
+import { matchInboundRules, getRuleTags, runRuleActions, Rule, InboundContext } from './rules.js';
+import type { WhatsAppSession } from './sessions.js';
+
+// Verificar se mensagens deste grupo devem ir para o CRM
+export function shouldIngestGroup(groupId: string): boolean {
+  if (!INGEST_GROUP_MESSAGES) {
+    return false;
+  }
+  if (GROUP_DENYLIST.includes(groupId)) {
+    return false;
+  }
+  return GROUP_ALLOWLIST.length === 0 || GROUP_ALLOWLIST.includes(groupId);
+}
+
+// Metadados do grupo (usa o cache da sessão para não consultar o WhatsApp a cada mensagem)
+async function getGroupMetadata(session: WhatsAppSession, socket: WASocket, groupId: string): Promise<GroupMetadata | null> {
+  const cached = session.groupMetadataCache.get(groupId);
+  if (cached) {
+    return cached;
+  }
+  try {
+    const metadata = await socket.groupMetadata(groupId);
+    session.groupMetadataCache.set(groupId, metadata);
+    return metadata;
+  } catch (error) {
+    logger.warn({ err: error, groupId }, '⚠️ Could not get group metadata');
+    return null;
+  }
+}
+
+// Mensagem de visualização única (wrapper viewOnce* ou flag na mídia)
+function isViewOnce(message: proto.IMessage | null | undefined): boolean {
+  const unwrapped = message?.ephemeralMessage?.message || message;
+  if (unwrapped?.viewOnceMessage || unwrapped?.viewOnceMessageV2 || unwrapped?.viewOnceMessageV2Extension) {
+    return true;
+  }
+  const content = normalizeMessageContent(message);
+  return !!(content?.imageMessage?.viewOnce || content?.videoMessage?.viewOnce || content?.audioMessage?.viewOnce);
+}
+
+// JIDs mencionados na mensagem (@fulano)
+function getMentionedJids(message: proto.IMessage | null | undefined): string[] {
+  const content = normalizeMessageContent(message);
+  const contentType = content ? getContentType(content) : undefined;
+  if (!content || !contentType) {
+    return [];
+  }
+  const inner = content[contentType] as { contextInfo?: proto.IContextInfo | null } | null | undefined;
+  return inner?.contextInfo?.mentionedJid || [];
+}
+
+// Função para processar mensagens recebidas (ou enviadas pelo celular) e enviar ao CRM
+export async function processIncomingMessage(message: proto.IWebMessageInfo, socket: WASocket, session: WhatsAppSession) {
+  try {
+    const messageKey = message.key;
+    if (!messageKey) {
+      logger.warn('Message without key, skipping');
+      return;
+    }
+    const remoteJid = messageKey.remoteJid;
+    
+    if (!remoteJid) {
+      logger.warn('Message without remoteJid, skipping');
+      return;
+    }
+
+    // Extrair número de telefone do JID
+    const phone = remoteJid.replace('@s.whatsapp.net', '').replace('@c.us', '').replace('@g.us', '');
+    
+    // Converter formato do Baileys (@s.whatsapp.net) para formato do CRM (@c.us)
+    let chatId: string;
+    if (remoteJid.includes('@s.whatsapp.net')) {
+      // Baileys usa @s.whatsapp.net, CRM usa @c.us
+      chatId = remoteJid.replace('@s.whatsapp.net', '@c.us');
+    } else if (remoteJid.includes('@')) {
+      chatId = remoteJid;
+    } else {
+      chatId = `${remoteJid}@c.us`;
+    }
+
+    // Extrair conteúdo da mensagem (sem os wrappers de mensagem temporária e visualização única)
+    const messageContent = normalizeMessageContent(message.message);
+    const viewOnce = isViewOnce(message.message);
+    let text = '';
+    let messageType = 'TEXT';
+    let mediaBuffer: Buffer | null = null;
+    let mediaMimetype: string | undefined;
+    let mediaFilename: string | undefined;
+    let replyToId: string | undefined;
+    let location: Record<string, unknown> | undefined;
+    let contacts: ParsedVCard[] | undefined;
+    let interactive: { type: 'button' | 'list'; id?: string; title?: string } | undefined;
+
+    // Extrair texto e tipo de mensagem
+    // IMPORTANTE: Verificar mídia (incluindo stickers) ANTES de textos
+    // IMPORTANTE: Verificar stickers ANTES de textos, pois stickers podem ter estrutura similar
+    if (messageContent?.stickerMessage) {
+      messageType = 'STICKER';
+      mediaMimetype = messageContent.stickerMessage.mimetype || 'image/webp';
+      
+      logger.debug({ messageId: messageKey?.id, mimetype: mediaMimetype }, '📎 Sticker detected');
+      
+      try {
+        const buffer = await downloadMediaMessage(
+          message as any,
+          'buffer',
+          {},
+          { logger: pino({ level: 'silent' }), reuploadRequest: socket.updateMediaMessage }
+        );
+        if (buffer) {
+          mediaBuffer = Buffer.from(buffer);
+          logger.debug({ messageId: messageKey?.id, bufferSize: buffer.length }, '✅ Sticker downloaded');
+        }
+      } catch (mediaError) {
+        logger.error({ err: mediaError, messageId: messageKey?.id }, '❌ Error downloading sticker');
+      }
+    } else if (messageContent?.imageMessage) {
+      messageType = 'IMAGE';
+      text = messageContent.imageMessage.caption || '';
+      mediaMimetype = messageContent.imageMessage.mimetype || 'image/jpeg';
+      
+      // Baixar mídia
+      try {
+        const buffer = await downloadMediaMessage(
+          message as any,
+          'buffer',
+          {},
+          { logger: pino({ level: 'silent' }), reuploadRequest: socket.updateMediaMessage }
+        );
+        if (buffer) {
+          mediaBuffer = Buffer.from(buffer);
+        }
+      } catch (mediaError) {
+        logger.error({ err: mediaError }, 'Error downloading image');
+      }
+    } else if (messageContent?.videoMessage) {
+      messageType = 'VIDEO';
+      text = messageContent.videoMessage.caption || '';
+      mediaMimetype = messageContent.videoMessage.mimetype || 'video/mp4';
+      
+      try {
+        const buffer = await downloadMediaMessage(
+          message as any,
+          'buffer',
+          {},
+          { logger: pino({ level: 'silent' }), reuploadRequest: socket.updateMediaMessage }
+        );
+        if (buffer) {
+          mediaBuffer = Buffer.from(buffer);
+        }
+      } catch (mediaError) {
+        logger.error({ err: mediaError }, 'Error downloading video');
+      }
+    } else if (messageContent?.audioMessage) {
+      messageType = 'AUDIO';
+      mediaMimetype = messageContent.audioMessage.mimetype || 'audio/ogg';
+      
+      try {
+        const buffer = await downloadMediaMessage(
+          message as any,
+          'buffer',
+          {},
+          { logger: pino({ level: 'silent' }), reuploadRequest: socket.updateMediaMessage }
+        );
+        if (buffer) {
+          mediaBuffer = Buffer.from(buffer);
+        }
+      } catch (mediaError) {
+        logger.error({ err: mediaError }, 'Error downloading audio');
+      }
+    } else if (messageContent?.documentMessage) {
+      messageType = 'DOCUMENT';
+      text = messageContent.documentMessage.caption || '';
+      mediaMimetype = messageContent.documentMessage.mimetype || 'application/octet-stream';
+      mediaFilename = messageContent.documentMessage.fileName || undefined;
+      
+      try {
+        const buffer = await downloadMediaMessage(
+          message as any,
+          'buffer',
+          {},
+          { logger: pino({ level: 'silent' }), reuploadRequest: socket.updateMediaMessage }
+        );
+        if (buffer) {
+          mediaBuffer = Buffer.from(buffer);
+        }
+      } catch (mediaError) {
+        logger.error({ err: mediaError }, 'Error downloading document');
+      }
+    } else if (messageContent?.locationMessage) {
+      const locationMessage = messageContent.locationMessage;
+      messageType = 'LOCATION';
+      text = locationMessage.name || locationMessage.address || '';
+      location = {
+        latitude: locationMessage.degreesLatitude,
+        longitude: locationMessage.degreesLongitude,
+        name: locationMessage.name || undefined,
+        address: locationMessage.address || undefined,
+        url: locationMessage.url || undefined,
+      };
+    } else if (messageContent?.liveLocationMessage) {
+      const liveLocation = messageContent.liveLocationMessage;
+      messageType = 'LOCATION';
+      text = liveLocation.caption || '';
+      location = {
+        latitude: liveLocation.degreesLatitude,
+        longitude: liveLocation.degreesLongitude,
+        live: true,
+        accuracyInMeters: liveLocation.accuracyInMeters || undefined,
+        sequenceNumber: liveLocation.sequenceNumber ? Number(liveLocation.sequenceNumber) : undefined,
+      };
+    } else if (messageContent?.contactMessage) {
+      messageType = 'CONTACT';
+      contacts = [parseVCard(messageContent.contactMessage.vcard || '', messageContent.contactMessage.displayName)];
+      text = contacts[0].name || '';
+    } else if (messageContent?.contactsArrayMessage) {
+      messageType = 'CONTACT';
+      contacts = (messageContent.contactsArrayMessage.contacts || []).map(contact => parseVCard(contact.vcard || '', contact.displayName));
+      text = messageContent.contactsArrayMessage.displayName || contacts.map(contact => contact.name).filter(Boolean).join(', ');
+    } else if (messageContent?.buttonsResponseMessage) {
+      // Resposta a mensagem com botões
+      const response = messageContent.buttonsResponseMessage;
+      messageType = 'BUTTON_REPLY';
+      text = response.selectedDisplayText || '';
+      interactive = { type: 'button', id: response.selectedButtonId || undefined, title: response.selectedDisplayText || undefined };
+    } else if (messageContent?.listResponseMessage) {
+      // Resposta a mensagem de lista
+      const response = messageContent.listResponseMessage;
+      messageType = 'LIST_REPLY';
+      text = response.title || '';
+      interactive = { type: 'list', id: response.singleSelectReply?.selectedRowId || undefined, title: response.title || undefined };
+    } else if (messageContent?.conversation) {
+      text = messageContent.conversation;
+      messageType = 'TEXT';
+    } else if (messageContent?.extendedTextMessage?.text) {
+      text = messageContent.extendedTextMessage.text;
+      messageType = 'TEXT';
+      
+      // Verificar se é reply no extendedTextMessage
+      if (messageContent.extendedTextMessage.contextInfo?.quotedMessage) {
+        replyToId = messageContent.extendedTextMessage.contextInfo.stanzaId || undefined;
+      }
+    }
+
+    // Obter nome e foto do contato usando Baileys
+    // senderJid pode ser participant (em grupos) ou remoteJid (em chats individuais)
+    const senderJid = messageKey?.participant || messageKey?.remoteJid;
+    let contactName: string | undefined;
+    let contactAvatar: string | undefined;
+    
+    logger.info({ 
+      senderJid, 
+      remoteJid: messageKey?.remoteJid,
+      participant: messageKey?.participant,
+      chatId,
+    }, '🔍 Starting contact info retrieval');
+    
+    if (senderJid) {
+      try {
+        logger.debug({ senderJid }, '📞 Getting contact info...');
+        // Note: getContactById was removed in Baileys v7, using alternative approach
+        // Extract name from JID if it's a valid phone number (not LID)
+        const jidPart = senderJid.split('@')[0];
+        const isLikelyLID = jidPart.length > 15 && /^\d+$/.test(jidPart);
+        
+        // Use JID as fallback for contact name
+        if (!isLikelyLID) {
+          const phoneOnly = jidPart.replace(/\D/g, '');
+          if (phoneOnly.length >= 10 && phoneOnly.length <= 15) {
+            if (phoneOnly.length === 13 && phoneOnly.startsWith('55')) {
+              contactName = `+${phoneOnly.slice(0, 2)} ${phoneOnly.slice(2, 4)} ${phoneOnly.slice(4, 9)}-${phoneOnly.slice(9)}`;
+            } else if (phoneOnly.length === 11) {
+              contactName = `${phoneOnly.slice(0, 2)} ${phoneOnly.slice(2, 7)}-${phoneOnly.slice(7)}`;
+            } else {
+              contactName = phoneOnly;
+            }
+            logger.debug({ senderJid, phoneOnly, formattedName: contactName }, '✅ JID formatted as phone number');
+          }
+        }
+        
+        // Tentar obter foto de perfil
+        logger.debug({ senderJid }, '📸 Calling socket.profilePictureUrl()...');
+        try {
+          const profilePicUrl = await socket.profilePictureUrl(senderJid);
+          if (profilePicUrl && profilePicUrl.trim() !== '') {
+            contactAvatar = profilePicUrl;
+            logger.debug({ senderJid, avatarLength: profilePicUrl.length }, '✅ Profile picture retrieved');
+          } else {
+            logger.debug({ senderJid }, '⚠️ Profile picture URL is empty');
+          }
+        } catch (picError) {
+          // Foto não disponível ou erro ao buscar - continuar sem ela
+          logger.warn({ 
+            err: picError, 
+            senderJid, 
+            errorMessage: picError instanceof Error ? picError.message : String(picError) 
+          }, '❌ Could not get profile picture for incoming message');
+        }
+      } catch (contactError) {
+        logger.error({ 
+          err: contactError, 
+          senderJid,
+          errorMessage: contactError instanceof Error ? contactError.message : String(contactError),
+          errorStack: contactError instanceof Error ? contactError.stack : undefined,
+        }, '❌ Error getting contact info for incoming message');
+        // Não usar senderJid como fallback se for LID
+        const jidPart = senderJid.split('@')[0];
+        const isLikelyLID = jidPart.length > 15 && /^\d+$/.test(jidPart);
+        if (!isLikelyLID) {
+          contactName = jidPart; // Pode ser um número de telefone
+          logger.debug({ senderJid, fallbackName: contactName }, '🔄 Using JID part as fallback name');
+        } else {
+          logger.debug({ senderJid, jidPart }, '⚠️ Skipping LID as fallback name');
+        }
+        // Se for LID, deixar undefined para o CRM usar fallback próprio
+      }
+    } else {
+      logger.warn({ chatId }, '⚠️ No senderJid available, using chatId as fallback');
+      // Se não tem senderJid, usar número do chatId como fallback
+      const chatIdPart = chatId.split('@')[0];
+      const isLikelyLID = chatIdPart.length > 15 && /^\d+$/.test(chatIdPart);
+      if (!isLikelyLID) {
+        contactName = chatIdPart;
+        logger.debug({ chatId, fallbackName: contactName }, '🔄 Using chatId part as fallback name');
+      } else {
+        logger.debug({ chatId, chatIdPart }, '⚠️ Skipping LID from chatId as fallback name');
+      }
+    }
+    
+    logger.info({ 
+      senderJid,
+      finalContactName: contactName,
+      finalContactAvatar: contactAvatar ? 'present' : 'missing',
+      chatId,
+    }, '🎯 Final contact info summary');
+
+    // Preparar payload para o CRM
+    const payload: any = {
+      chatId,
+      message: text || undefined,
+      fromMe: !!messageKey.fromMe,
+      messageId: messageKey?.id,
+      contactName: contactName || undefined,
+      contactAvatar: contactAvatar || undefined,
+      messageType,
+      timestamp: message.messageTimestamp ? new Date(Number(message.messageTimestamp) * 1000).toISOString() : new Date().toISOString(),
+    };
+
+    if (mediaBuffer && mediaMimetype) {
+      payload.mediaMimetype = mediaMimetype;
+      if (mediaFilename) {
+        payload.mediaFilename = mediaFilename;
+      }
+
+      // Mídia vai para o storage e o webhook leva a URL assinada (GET /media/:id)
+      let storedMedia = false;
+      try {
+        const media = await saveMedia(session.id, {
+          data: mediaBuffer,
+          mimetype: mediaMimetype,
+          filename: mediaFilename,
+          chatJid: remoteJid,
+          messageId: messageKey.id || undefined,
+        });
+        const { url, expiresAt } = getSignedMediaUrl(media.id);
+        payload.mediaId = media.id;
+        payload.mediaUrl = url;
+        payload.mediaUrlExpiresAt = expiresAt;
+        payload.mediaSize = media.size;
+        payload.mediaSha256 = media.sha256;
+        storedMedia = true;
+      } catch (storageError) {
+        logger.error({ err: storageError, messageId: messageKey.id }, '❌ Error storing media, sending it inline');
+      }
+
+      // Base64 só quando configurado ou se o storage falhou (para não perder a mídia)
+      if (WEBHOOK_MEDIA_BASE64 || !storedMedia) {
+        payload.mediaData = `data:${mediaMimetype};base64,${mediaBuffer.toString('base64')}`;
+      }
+    }
+
+    if (replyToId) {
+      payload.replyToId = replyToId;
+    }
+
+    if (location) {
+      payload.location = location;
+    }
+
+    if (contacts) {
+      payload.contacts = contacts;
+    }
+
+    if (interactive) {
+      payload.interactive = interactive;
+    }
+
+    if (viewOnce) {
+      payload.viewOnce = true;
+    }
+
+    // Mensagens de grupo: dados do grupo e de quem enviou
+    if (remoteJid.endsWith('@g.us')) {
+      const metadata = await getGroupMetadata(session, socket, remoteJid);
+      const participant = messageKey.participant || undefined;
+      const participantInfo = participant ? metadata?.participants.find(p => p.id === participant) : undefined;
+
+      payload.isGroup = true;
+      payload.groupId = remoteJid;
+      payload.groupSubject = metadata?.subject || undefined;
+      payload.participant = participant?.replace('@s.whatsapp.net', '@c.us');
+      payload.participantName = message.pushName || participantInfo?.name || participantInfo?.notify || contactName || undefined;
+      payload.mentions = getMentionedJids(messageContent).map(jid => jid.replace('@s.whatsapp.net', '@c.us'));
+    }
+
+    // Opt-out/opt-in (SAIR, PARAR, VOLTAR) em chats privados: registra o consentimento (pelo número, mesmo em
+    // chats @lid) e não aciona respostas automáticas; a confirmação sai em segundo plano
+    let consent: ConsentStatus | null = null;
+    if (!messageKey.fromMe && !remoteJid.endsWith('@g.us') && text && detectConsentKeyword(text)) {
+      consent = recordConsentKeyword(session, await resolveConsentJid(socket, messageKey), text);
+    }
+    if (consent) {
+      payload.consent = consent;
+      sendConsentConfirmation(session, remoteJid, consent).catch(error => {
+        logger.error({ err: error, messageId: messageKey.id }, '❌ Error sending consent confirmation');
+      });
+    }
+
+    // Regras de resposta automática (só mensagens recebidas); as tags e regras acionadas vão no payload
+    let matchedRules: Rule[] = [];
+    let ruleContext: InboundContext | undefined;
+    if (!messageKey.fromMe && messageKey.id && !consent) {
+      ruleContext = {
+        chatJid: remoteJid,
+        text,
+        messageType,
+        isGroup: remoteJid.endsWith('@g.us'),
+        contactName: message.pushName || contactName,
+      };
+      matchedRules = matchInboundRules(session, messageKey.id, ruleContext);
+      if (matchedRules.length > 0) {
+        payload.matchedRules = matchedRules.map(rule => ({ id: rule.id, name: rule.name }));
+        const tags = getRuleTags(matchedRules);
+        if (tags.length > 0) {
+          payload.tags = tags;
+        }
+      }
+    }
+
+    // Publicar para os webhooks assinantes (fila persistente com retentativas)
+    // Mensagens enviadas pelo celular ou WhatsApp Web vão como message.sent
+    const event = messageKey.fromMe ? 'message.sent' : 'message.received';
+    publishEvent(session.id, event, payload, chatId);
+    logger.info({ messageId: messageKey?.id, type: messageType, event }, '📬 Message published to webhooks');
+
+    // Ações das regras rodam em segundo plano (respostas respeitam o limite de envio)
+    if (ruleContext && matchedRules.length > 0) {
+      runRuleActions(session, message, matchedRules, ruleContext).catch(error => {
+        logger.error({ err: error, messageId: messageKey.id }, '❌ Error running auto-reply rules');
+      });
+    }
+
+    // Fora do horário: mensagem de ausência em chats privados, exceto quando uma regra já respondeu
+    const repliedByRule = matchedRules.some(rule => rule.actions.some(action => action.type === 'reply'));
+    if (ruleContext && !ruleContext.isGroup && !repliedByRule) {
+      sendAwayMessageIfNeeded(session, remoteJid, {
+        name: ruleContext.contactName || '',
+        phone: remoteJid.split('@')[0],
+      }).catch(error => {
+        logger.error({ err: error, messageId: messageKey.id }, '❌ Error sending away message');
+      });
+    }
+  } catch (error) {
+    logger.error({ err: error }, 'Error processing incoming message');
+  }
+}
@@ -1,62 +1,158 @@
 import express from 'express';
 import cors from 'cors';
-import dotenv from 'dotenv';
-import { makeWASocket, DisconnectReason, useMultiFileAuthState, WASocket, downloadMediaMessage, proto } from '@whiskeysockets/baileys';
-import { Boom } from '@hapi/boom';
+import { downloadMediaMessage, toNumber, WAMessageKey } from '@whiskeysockets/baileys';
 import pino from 'pino';
-import QRCode from 'qrcode';
-import { fileURLToPath } from 'url';
-import { dirname, join } from 'path';
 import fs from 'fs';
-
-// ESM __dirname equivalent
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
-dotenv.config();
+import { PORT, API_KEY, AUTH_DIR, CRM_WEBHOOK_URL, JSON_BODY_LIMIT, DEFAULT_TIMEZONE } from './config.js';
+import { logger } from './logger.js';
+import {
+  WhatsAppSession,
+  DEFAULT_SESSION_ID,
+  isValidSessionId,
+  getSession,
+  listSessions,
+  createSession,
+  deleteSession,
+  endSession,
+  loadSessions,
+  getMessageFromCache,
+  findMessage,
+  getContactJids,
+  startConnection,
+  autoConnectOnStartup,
+} from './sessions.js';
+import {
+  listChats,
+  listMessages,
+  getMessageStatus,
+  getMessageSummary,
+  applyMessageEdit,
+  markMessageRevoked,
+  deleteStoredMessage,
+} from './store.js';
+import { toJid, toCrmChatId } from './jid.js';
+import { getPollResults } from './polls.js';
+import { parseMultipartUpload } from './uploads.js';
+import { sendWhatsAppMessage, validateSendMessageInput, processBase64Data, getConsentError, getSendMediaError, SendMessageError, SendMessageInput } from './send.js';
+import {
+  SCHEDULED_MESSAGE_STATUSES,
+  ScheduledMessageStatus,
+  startScheduler,
+  createScheduledMessage,
+  getScheduledMessage,
+  listScheduledMessages,
+  rescheduleMessage,
+  cancelScheduledMessage,
+} from './scheduler.js';
+import { isValidTimeZone, parseDateInTimeZone } from './timezone.js';
+import {
+  OUTBOX_STATUSES,
+  OutboxStatus,
+  startOutboxWorker,
+  hasQueuedMessages,
+  enqueueOutboxMessage,
+  getOutboxMessage,
+  listOutboxMessages,
+  cancelOutboxMessage,
+} from './outbox.js';
+import {
+  CAMPAIGN_STATUSES,
+  CAMPAIGN_RECIPIENT_STATUSES,
+  CampaignInput,
+  CampaignStatus,
+  CampaignRecipientStatus,
+  startCampaignWorker,
+  validateCampaignInput,
+  createCampaign,
+  getCampaign,
+  listCampaigns,
+  listCampaignRecipients,
+  setCampaignStatus,
+} from './campaigns.js';
+import {
+  TemplateInput,
+  validateTemplateInput,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
+  getTemplate,
+  listTemplates,
+  removeOrphanTemplateMedia,
+} from './templates.js';
+import {
+  RuleInput,
+  validateRuleInput,
+  loadRules,
+  watchRulesFile,
+  listRules,
+  getRule,
+  createRule,
+  updateRule,
+  deleteRule,
+} from './rules.js';
+import {
+  BusinessHoursInput,
+  validateBusinessHoursInput,
+  loadBusinessHours,
+  getBusinessHoursSettings,
+  getBusinessHoursStatus,
+  updateBusinessHours,
+} from './business-hours.js';
+import {
+  CONSENT_STATUSES,
+  ConsentStatus,
+  ConsentImportEntry,
+  getConsent,
+  setConsent,
+  listConsent,
+  exportConsent,
+  importConsent,
+  formatConsentCsv,
+  parseConsentCsv,
+} from './consent.js';
+import { getMedia, getSignedMediaUrl, openMediaStream, verifyMediaSignature } from './media.js';
+import { publishEvent, onStreamEvent } from './events.js';
+import {
+  startWebhookWorker,
+  getWebhookQueueStats,
+  listWebhookDeliveries,
+  replayDeadLetters,
+  purgeDeadLetters,
+  deleteSubscriptionDeliveries,
+  retargetSubscriptionDeliveries,
+} from './webhooks.js';
+import {
+  WEBHOOK_EVENT_TYPES,
+  WebhookSubscriptionInput,
+  loadSubscriptions,
+  listSubscriptions,
+  getSubscription,
+  createSubscription,
+  updateSubscription,
+  deleteSubscription,
+  validateSubscriptionInput,
+  formatSubscription,
+} from './subscriptions.js';
 
 const app = express();
-const PORT = parseInt(process.env.PORT || '8000', 10);
-const API_KEY = process.env.API_KEY || '';
-const AUTH_DIR = process.env.AUTH_DIR || join(__dirname, 'auth_info');
-const LOG_LEVEL = (process.env.LOG_LEVEL || 'info') as pino.Level;
-const CRM_WEBHOOK_URL = process.env.CRM_WEBHOOK_URL || 'http://localhost:3000/api/whatsapp/save-message';
 
 // Middleware
 app.use(cors());
-app.use(express.json());
-
-// Logger
-const logger = pino({ level: LOG_LEVEL });
-
-// Estado global
-let socket: WASocket | null = null;
-let qrCode: string | null = null;
-let connectionStatus: 'disconnected' | 'connecting' | 'connected' = 'disconnected';
-let phoneNumber: string | null = null;
-let keepAliveInterval: NodeJS.Timeout | null = null;
+app.use(express.json({ limit: JSON_BODY_LIMIT }));
 
-// Cache de mensagens recebidas (para Download e Forward)
-const messageCache = new Map<string, proto.IWebMessageInfo>();
-
-// Função para gerar chave do cache
-function getMessageCacheKey(remoteJid: string, messageId: string): string {
-  return `${remoteJid}:${messageId}`;
-}
-
-// Função para buscar mensagem do cache
-function getMessageFromCache(chatId: string, messageId: string): proto.IWebMessageInfo | null {
-  // Converter formato do CRM (@c.us) para formato do Baileys (@s.whatsapp.net)
-  let jid = chatId;
-  if (chatId.includes('@c.us')) {
-    jid = chatId.replace('@c.us', '@s.whatsapp.net');
-  } else if (!chatId.includes('@')) {
-    jid = `${chatId}@s.whatsapp.net`;
+// Corpo JSON acima do limite (ex.: mediaData em base64 grande)
+app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (err?.type === 'entity.too.large') {
+    return res.status(413).json({
+      success: false,
+      error: `Request body too large (max ${JSON_BODY_LIMIT}). Use multipart/form-data to upload files`,
+    });
   }
-  
-  const key = getMessageCacheKey(jid, messageId);
-  return messageCache.get(key) || null;
-}
+  next(err);
+});
+
+// Rotas por sessão: montadas em /sessions/:sessionId e, para a sessão default, na raiz
+const router = express.Router({ mergeParams: true });
 
 // Middleware de autenticação
 const authenticate = (req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -71,582 +167,76 @@ const authenticate = (req: express.Request, res: express.Response, next: express
   next();
 };
 
-// Garantir diretório de autenticação
-if (!fs.existsSync(AUTH_DIR)) {
-  fs.mkdirSync(AUTH_DIR, { recursive: true });
-}
-
-// Função para processar mensagens recebidas e enviar ao CRM
-async function processIncomingMessage(message: proto.IWebMessageInfo, socket: WASocket) {
-  try {
-    const messageKey = message.key;
-    if (!messageKey) {
-      logger.warn('Message without key, skipping');
-      return;
-    }
-    const remoteJid = messageKey.remoteJid;
-    
-    if (!remoteJid) {
-      logger.warn('Message without remoteJid, skipping');
-      return;
-    }
-
-    // Extrair número de telefone do JID
-    const phone = remoteJid.replace('@s.whatsapp.net', '').replace('@c.us', '').replace('@g.us', '');
-    
-    // Converter formato do Baileys (@s.whatsapp.net) para formato do CRM (@c.us)
-    let chatId: string;
-    if (remoteJid.includes('@s.whatsapp.net')) {
-      // Baileys usa @s.whatsapp.net, CRM usa @c.us
-      chatId = remoteJid.replace('@s.whatsapp.net', '@c.us');
-    } else if (remoteJid.includes('@')) {
-      chatId = remoteJid;
-    } else {
-      chatId = `${remoteJid}@c.us`;
-    }
-
-    // Extrair conteúdo da mensagem
-    const messageContent = message.message;
-    let text = '';
-    let messageType = 'TEXT';
-    let mediaData: string | null = null;
-    let mediaMimetype: string | undefined;
-    let mediaFilename: string | undefined;
-    let replyToId: string | undefined;
-
-    // Extrair texto e tipo de mensagem
-    // IMPORTANTE: Verificar mídia (incluindo stickers) ANTES de textos
-    // IMPORTANTE: Verificar stickers ANTES de textos, pois stickers podem ter estrutura similar
-    if (messageContent?.stickerMessage) {
-      messageType = 'STICKER';
-      mediaMimetype = messageContent.stickerMessage.mimetype || 'image/webp';
-      
-      logger.debug({ messageId: messageKey?.id, mimetype: mediaMimetype }, '📎 Sticker detected');
-      
-      try {
-        const buffer = await downloadMediaMessage(
-          message as any,
-          'buffer',
-          {},
-          { logger: pino({ level: 'silent' }), reuploadRequest: socket.updateMediaMessage }
-        );
-        if (buffer) {
-          mediaData = `data:${mediaMimetype};base64,${Buffer.from(buffer).toString('base64')}`;
-          logger.debug({ messageId: messageKey?.id, bufferSize: buffer.length }, '✅ Sticker downloaded');
-        }
-      } catch (mediaError) {
-        logger.error({ err: mediaError, messageId: messageKey?.id }, '❌ Error downloading sticker');
-      }
-    } else if (messageContent?.imageMessage) {
-      messageType = 'IMAGE';
-      text = messageContent.imageMessage.caption || '';
-      mediaMimetype = messageContent.imageMessage.mimetype || 'image/jpeg';
-      
-      // Baixar mídia
-      try {
-        const buffer = await downloadMediaMessage(
-          message as any,
-          'buffer',
-          {},
-          { logger: pino({ level: 'silent' }), reuploadRequest: socket.updateMediaMessage }
-        );
-        if (buffer) {
-          mediaData = `data:${mediaMimetype};base64,${Buffer.from(buffer).toString('base64')}`;
-        }
-      } catch (mediaError) {
-        logger.error({ err: mediaError }, 'Error downloading image');
-      }
-    } else if (messageContent?.videoMessage) {
-      messageType = 'VIDEO';
-      text = messageContent.videoMessage.caption || '';
-      mediaMimetype = messageContent.videoMessage.mimetype || 'video/mp4';
-      
-      try {
-        const buffer = await downloadMediaMessage(
-          message as any,
-          'buffer',
-          {},
-          { logger: pino({ level: 'silent' }), reuploadRequest: socket.updateMediaMessage }
-        );
-        if (buffer) {
-          mediaData = `data:${mediaMimetype};base64,${Buffer.from(buffer).toString('base64')}`;
-        }
-      } catch (mediaError) {
-        logger.error({ err: mediaError }, 'Error downloading video');
-      }
-    } else if (messageContent?.audioMessage) {
-      messageType = 'AUDIO';
-      mediaMimetype = messageContent.audioMessage.mimetype || 'audio/ogg';
-      
-      try {
-        const buffer = await downloadMediaMessage(
-          message as any,
-          'buffer',
-          {},
-          { logger: pino({ level: 'silent' }), reuploadRequest: socket.updateMediaMessage }
-        );
-        if (buffer) {
-          mediaData = `data:${mediaMimetype};base64,${Buffer.from(buffer).toString('base64')}`;
-        }
-      } catch (mediaError) {
-        logger.error({ err: mediaError }, 'Error downloading audio');
-      }
-    } else if (messageContent?.documentMessage) {
-      messageType = 'DOCUMENT';
-      text = messageContent.documentMessage.caption || '';
-      mediaMimetype = messageContent.documentMessage.mimetype || 'application/octet-stream';
-      mediaFilename = messageContent.documentMessage.fileName || undefined;
-      
-      try {
-        const buffer = await downloadMediaMessage(
-          message as any,
-          'buffer',
-          {},
-          { logger: pino({ level: 'silent' }), reuploadRequest: socket.updateMediaMessage }
-        );
-        if (buffer) {
-          mediaData = `data:${mediaMimetype};base64,${Buffer.from(buffer).toString('base64')}`;
-        }
-      } catch (mediaError) {
-        logger.error({ err: mediaError }, 'Error downloading document');
-      }
-    } else if (messageContent?.conversation) {
-      text = messageContent.conversation;
-      messageType = 'TEXT';
-    } else if (messageContent?.extendedTextMessage?.text) {
-      text = messageContent.extendedTextMessage.text;
-      messageType = 'TEXT';
-      
-      // Verificar se é reply no extendedTextMessage
-      if (messageContent.extendedTextMessage.contextInfo?.quotedMessage) {
-        replyToId = messageContent.extendedTextMessage.contextInfo.stanzaId || undefined;
-      }
-    }
-
-    // Obter nome e foto do contato usando Baileys
-    // senderJid pode ser participant (em grupos) ou remoteJid (em chats individuais)
-    const senderJid = messageKey?.participant || messageKey?.remoteJid;
-    let contactName: string | undefined;
-    let contactAvatar: string | undefined;
-    
-    logger.info({ 
-      senderJid, 
-      remoteJid: messageKey?.remoteJid,
-      participant: messageKey?.participant,
-      chatId,
-    }, '🔍 Starting contact info retrieval');
-    
-    if (senderJid) {
-      try {
-        logger.debug({ senderJid }, '📞 Getting contact info...');
-        // Note: getContactById was removed in Baileys v7, using alternative approach
-        // Extract name from JID if it's a valid phone number (not LID)
-        const jidPart = senderJid.split('@')[0];
-        const isLikelyLID = jidPart.length > 15 && /^\d+$/.test(jidPart);
-        
-        // Use JID as fallback for contact name
-        if (!isLikelyLID) {
-          const phoneOnly = jidPart.replace(/\D/g, '');
-          if (phoneOnly.length >= 10 && phoneOnly.length <= 15) {
-            if (phoneOnly.length === 13 && phoneOnly.startsWith('55')) {
-              contactName = `+${phoneOnly.slice(0, 2)} ${phoneOnly.slice(2, 4)} ${phoneOnly.slice(4, 9)}-${phoneOnly.slice(9)}`;
-            } else if (phoneOnly.length === 11) {
-              contactName = `${phoneOnly.slice(0, 2)} ${phoneOnly.slice(2, 7)}-${phoneOnly.slice(7)}`;
-            } else {
-              contactName = phoneOnly;
-            }
-            logger.debug({ senderJid, phoneOnly, formattedName: contactName }, '✅ JID formatted as phone number');
-          }
-        }
-        
-        // Tentar obter foto de perfil
-        logger.debug({ senderJid }, '📸 Calling socket.profilePictureUrl()...');
-        try {
-          const profilePicUrl = await socket.profilePictureUrl(senderJid);
-          if (profilePicUrl && profilePicUrl.trim() !== '') {
-            contactAvatar = profilePicUrl;
-            logger.debug({ senderJid, avatarLength: profilePicUrl.length }, '✅ Profile picture retrieved');
-          } else {
-            logger.debug({ senderJid }, '⚠️ Profile picture URL is empty');
-          }
-        } catch (picError) {
-          // Foto não disponível ou erro ao buscar - continuar sem ela
-          logger.warn({ 
-            err: picError, 
-            senderJid, 
-            errorMessage: picError instanceof Error ? picError.message : String(picError) 
-          }, '❌ Could not get profile picture for incoming message');
-        }
-      } catch (contactError) {
-        logger.error({ 
-          err: contactError, 
-          senderJid,
-          errorMessage: contactError instanceof Error ? contactError.message : String(contactError),
-          errorStack: contactError instanceof Error ? contactError.stack : undefined,
-        }, '❌ Error getting contact info for incoming message');
-        // Não usar senderJid como fallback se for LID
-        const jidPart = senderJid.split('@')[0];
-        const isLikelyLID = jidPart.length > 15 && /^\d+$/.test(jidPart);
-        if (!isLikelyLID) {
-          contactName = jidPart; // Pode ser um número de telefone
-          logger.debug({ senderJid, fallbackName: contactName }, '🔄 Using JID part as fallback name');
-        } else {
-          logger.debug({ senderJid, jidPart }, '⚠️ Skipping LID as fallback name');
-        }
-        // Se for LID, deixar undefined para o CRM usar fallback próprio
-      }
-    } else {
-      logger.warn({ chatId }, '⚠️ No senderJid available, using chatId as fallback');
-      // Se não tem senderJid, usar número do chatId como fallback
-      const chatIdPart = chatId.split('@')[0];
-      const isLikelyLID = chatIdPart.length > 15 && /^\d+$/.test(chatIdPart);
-      if (!isLikelyLID) {
-        contactName = chatIdPart;
-        logger.debug({ chatId, fallbackName: contactName }, '🔄 Using chatId part as fallback name');
-      } else {
-        logger.debug({ chatId, chatIdPart }, '⚠️ Skipping LID from chatId as fallback name');
-      }
-    }
-    
-    logger.info({ 
-      senderJid,
-      finalContactName: contactName,
-      finalContactAvatar: contactAvatar ? 'present' : 'missing',
-      chatId,
-    }, '🎯 Final contact info summary');
-
-    // Preparar payload para o CRM
-    const payload: any = {
-      chatId,
-      message: text || undefined,
-      fromMe: false,
-      messageId: messageKey?.id,
-      contactName: contactName || undefined,
-      contactAvatar: contactAvatar || undefined,
-      messageType,
-      timestamp: message.messageTimestamp ? new Date(Number(message.messageTimestamp) * 1000).toISOString() : new Date().toISOString(),
-    };
-
-    if (mediaData) {
-      payload.mediaData = mediaData;
-      payload.mediaMimetype = mediaMimetype;
-      if (mediaFilename) {
-        payload.mediaFilename = mediaFilename;
-      }
-    }
-
-    if (replyToId) {
-      payload.replyToId = replyToId;
-    }
-
-    // Enviar para o CRM
-    try {
-      const response = await fetch(CRM_WEBHOOK_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        logger.error({ 
-          status: response.status, 
-          error: errorText,
-          messageId: messageKey?.id 
-        }, 'Error sending message to CRM');
-      } else {
-        logger.info({ messageId: messageKey?.id, type: messageType }, '✅ Message sent to CRM');
-      }
-    } catch (fetchError) {
-      logger.error({ err: fetchError, messageId: messageKey?.id }, 'Error fetching CRM webhook');
-    }
-  } catch (error) {
-    logger.error({ err: error }, 'Error processing incoming message');
+// Middleware para resolver a sessão da requisição (default quando não há :sessionId)
+const resolveSession = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const sessionId = req.params.sessionId || DEFAULT_SESSION_ID;
+  const session = getSession(sessionId);
+  if (!session) {
+    return res.status(404).json({ success: false, error: `Session ${sessionId} not found` });
   }
-}
+  res.locals.session = session;
+  next();
+};
 
-// Função para iniciar conexão
-async function startConnection() {
-  if (socket && connectionStatus === 'connected') {
-    logger.info('Already connected');
-    return;
-  }
+router.use(resolveSession);
 
-  if (connectionStatus === 'connecting') {
-    logger.info('Connection already in progress');
-    return;
+// Autenticação do stream: EventSource não envia headers, então aceita também ?apikey=
+const authenticateStream = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (!API_KEY) {
+    return next();
   }
 
-  connectionStatus = 'connecting';
-  qrCode = null;
-
-  try {
-    const { state, saveCreds } = await useMultiFileAuthState(AUTH_DIR);
-    
-    socket = makeWASocket({
-      auth: state,
-      printQRInTerminal: false,
-      logger: pino({ level: 'silent' }),
-    });
-    
-    logger.info('Socket created, setting up event handlers...');
-
-    socket.ev.on('creds.update', saveCreds);
-
-    socket.ev.on('connection.update', async (update) => {
-      const { connection, lastDisconnect, qr } = update;
-
-      // Log detalhado para debug
-      logger.info({ 
-        connection, 
-        hasQr: !!qr, 
-        qrLength: qr?.length,
-        lastDisconnectError: lastDisconnect?.error?.message 
-      }, 'Connection update received');
-
-      if (qr) {
-        try {
-          qrCode = await QRCode.toDataURL(qr);
-          logger.info('✅ QR Code generated successfully');
-        } catch (err) {
-          logger.error({ err }, '❌ Error generating QR Code');
-        }
-      }
-
-      if (connection === 'close') {
-        const disconnectError = lastDisconnect?.error as Boom;
-        const statusCode = disconnectError?.output?.statusCode;
-        const errorMessage = disconnectError?.message || '';
-        
-        logger.info({ 
-          statusCode, 
-          errorMessage,
-          shouldReconnect: statusCode !== DisconnectReason.loggedOut 
-        }, 'Connection closed');
-
-        // Se for "Connection Failure" com statusCode 401, a sessão está corrompida
-        const isConnectionFailure = errorMessage.includes('Connection Failure') || 
-                                   statusCode === DisconnectReason.connectionClosed ||
-                                   statusCode === DisconnectReason.connectionLost;
-        
-        // StatusCode 401 geralmente significa sessão inválida/corrompida
-        const isUnauthorized = statusCode === 401;
-        
-        if (isConnectionFailure || isUnauthorized) {
-          logger.warn('⚠️ Connection Failure/Unauthorized detected - session may be corrupted');
-          
-          // Se for 401 (Unauthorized), limpar sessão automaticamente
-          if (isUnauthorized) {
-            logger.info('🔧 Auto-clearing corrupted session (statusCode 401)...');
-            try {
-              if (fs.existsSync(AUTH_DIR)) {
-                const authFiles = fs.readdirSync(AUTH_DIR);
-                let deletedCount = 0;
-                
-                authFiles.forEach(file => {
-                  try {
-                    const filePath = `${AUTH_DIR}/${file}`;
-                    if (fs.statSync(filePath).isFile()) {
-                      fs.unlinkSync(filePath);
-                      deletedCount++;
-                    }
-                  } catch (fileError) {
-                    logger.warn({ err: fileError, file }, 'Error deleting auth file');
-                  }
-                });
-                
-                logger.info({ deletedCount }, '✅ Session files auto-cleared');
-              }
-            } catch (clearError) {
-              logger.error({ err: clearError }, 'Error auto-clearing session');
-            }
-          } else {
-            logger.info('💡 Tip: Try disconnecting with clearSession=true to reset the session');
-          }
-        }
-
-        const shouldReconnect = statusCode !== DisconnectReason.loggedOut;
-        
-        // Parar keep-alive se estiver rodando
-        if (keepAliveInterval) {
-          clearInterval(keepAliveInterval);
-          keepAliveInterval = null;
-        }
-        
-        // Limpar estado atual
-        connectionStatus = 'disconnected';
-        socket = null;
-        qrCode = null;
-        phoneNumber = null;
-        
-        // Se for 401 (Unauthorized), aguardar mais tempo antes de reconectar (sessão foi limpa)
-        if (isUnauthorized) {
-          logger.info('✅ Session cleared. Attempting to reconnect in 10 seconds...');
-          setTimeout(() => {
-            logger.info('🔄 Auto-reconnecting after session clear...');
-            startConnection().catch(err => {
-              logger.error({ err }, 'Error during auto-reconnect after session clear');
-            });
-          }, 10000); // 10 segundos para dar tempo da sessão ser limpa
-        } else if (shouldReconnect) {
-          // Para outros erros, reconectar mais rápido
-          const delay = isConnectionFailure ? 5000 : 3000;
-          logger.info({ delay }, '🔄 Auto-reconnecting...');
-          setTimeout(() => {
-            startConnection().catch(err => {
-              logger.error({ err }, 'Error during auto-reconnect');
-            });
-          }, delay);
-        } else {
-          // Logged out - não reconectar automaticamente
-          logger.info('Logged out - no auto-reconnect');
-        }
-      } else if (connection === 'open') {
-        connectionStatus = 'connected';
-        qrCode = null; // Limpar QR Code quando conectar
-        // Baileys v7.0.0: user pode ser LID ou PN
-        const userId = socket?.user?.id;
-        if (userId) {
-          // Extrair número de telefone (pode ser LID ou PN)
-          phoneNumber = userId.split(':')[0] || userId.split('@')[0] || null;
-        }
-        logger.info({ phoneNumber, userId }, '✅ Connected successfully - QR Code cleared');
-        
-        // Iniciar keep-alive para manter conexão ativa
-        startKeepAlive();
-      } else {
-        // Estado intermediário - aguardando QR Code ou conexão
-        logger.info('Connection state: connecting');
-      }
-    });
-
-    socket.ev.on('messages.upsert', async (m) => {
-      // Processar mensagens recebidas
-      const { messages, type } = m;
-      
-      if (type !== 'notify') {
-        return; // Ignorar mensagens antigas ou de sincronização
-      }
-
-      for (const message of messages) {
-        try {
-          // Armazenar mensagem no cache (para Download e Forward)
-          if (message.key?.remoteJid && message.key?.id) {
-            const cacheKey = getMessageCacheKey(message.key.remoteJid, message.key.id);
-            messageCache.set(cacheKey, message);
-            
-            // Limitar cache a 1000 mensagens (remover mais antigas)
-            if (messageCache.size > 1000) {
-              const firstKey = messageCache.keys().next().value;
-              if (firstKey) {
-                messageCache.delete(firstKey);
-              }
-            }
-          }
-
-          // Ignorar mensagens enviadas por nós
-          if (message.key.fromMe) {
-            continue;
-          }
-
-          // Ignorar mensagens de status ou de grupo (por enquanto)
-          if (message.key.remoteJid === 'status@broadcast' || message.key.remoteJid?.endsWith('@g.us')) {
-            continue;
-          }
-
-          if (socket) {
-            await processIncomingMessage(message, socket);
-          }
-        } catch (error) {
-          logger.error({ err: error, messageId: message.key.id }, 'Error processing incoming message');
-        }
-      }
-    });
-
-  } catch (error) {
-    logger.error({ err: error }, 'Error starting connection');
-    connectionStatus = 'disconnected';
-    socket = null;
-    qrCode = null;
-    phoneNumber = null;
-    throw error; // Re-lançar erro para que o endpoint /connect possa tratá-lo
+  const apiKey = req.headers.apikey || req.headers['x-api-key'] || req.query.apikey;
+  if (apiKey !== API_KEY) {
+    return res.status(401).json({ error: 'Unauthorized' });
   }
+  next();
+};
+
+// Sessão resolvida pelo middleware resolveSession
+function getRequestSession(res: express.Response): WhatsAppSession {
+  return res.locals.session as WhatsAppSession;
 }
 
-// Função para manter conexão ativa (keep-alive)
-function startKeepAlive() {
-  // Parar qualquer keep-alive anterior
-  if (keepAliveInterval) {
-    clearInterval(keepAliveInterval);
-  }
-  
-  // Enviar presença a cada 30 segundos para manter conexão ativa
-  keepAliveInterval = setInterval(async () => {
-    if (socket && connectionStatus === 'connected') {
-      try {
-        // Enviar presença "available" para manter conexão ativa
-        await socket.sendPresenceUpdate('available');
-        logger.debug('Keep-alive: Presence updated');
-      } catch (error) {
-        logger.warn({ err: error }, 'Keep-alive: Error sending presence update');
-        // Se houver erro, pode ser que a conexão caiu
-        // O event handler de connection.update vai tratar
-      }
-    } else {
-      // Se não está conectado, parar keep-alive
-      if (keepAliveInterval) {
-        clearInterval(keepAliveInterval);
-        keepAliveInterval = null;
-      }
-    }
-  }, 30000); // A cada 30 segundos
-  
-  logger.info('Keep-alive started');
+// Resumo de status de uma sessão
+function getSessionSummary(session: WhatsAppSession) {
+  return {
+    id: session.id,
+    connected: session.connectionStatus === 'connected',
+    status: session.connectionStatus,
+    phoneNumber: session.phoneNumber,
+    hasQrCode: session.connectionStatus === 'connected' ? false : !!session.qrCode,
+  };
 }
 
-// Função para verificar se há sessão salva e conectar automaticamente
-async function autoConnectOnStartup() {
-  try {
-    // Verificar se existe diretório de auth e se tem arquivos
-    if (!fs.existsSync(AUTH_DIR)) {
-      logger.info('No auth directory found - skipping auto-connect');
-      return;
-    }
-    
-    const authFiles = fs.readdirSync(AUTH_DIR);
-    const hasCreds = authFiles.some(file => file === 'creds.json' || file.startsWith('app-state-sync'));
-    
-    if (!hasCreds) {
-      logger.info('No saved session found - skipping auto-connect');
-      return;
-    }
-    
-    logger.info('Saved session found - attempting auto-connect...');
-    await startConnection();
-  } catch (error) {
-    logger.error({ err: error }, 'Error during auto-connect on startup');
-  }
+// Garantir diretório de autenticação
+if (!fs.existsSync(AUTH_DIR)) {
+  fs.mkdirSync(AUTH_DIR, { recursive: true });
 }
 
+loadSubscriptions();
+loadRules();
+watchRulesFile();
+loadBusinessHours();
+loadSessions();
+
 // Endpoints
 
 // GET /status
-app.get('/status', authenticate, (req, res) => {
-  // Se está conectado, garantir que não tem QR Code
-  const hasQrCode = connectionStatus === 'connected' ? false : !!qrCode;
+router.get('/status', authenticate, (req, res) => {
+  const { connected, status, phoneNumber, hasQrCode } = getSessionSummary(getRequestSession(res));
   
   res.json({
-    connected: connectionStatus === 'connected',
-    status: connectionStatus,
+    connected,
+    status,
     phoneNumber,
     hasQrCode,
   });
 });
 
 // GET /qr-code
-app.get('/qr-code', authenticate, (req, res) => {
+router.get('/qr-code', authenticate, (req, res) => {
+  const { connectionStatus, qrCode } = getRequestSession(res);
   // Se está conectado, não deve ter QR Code
   if (connectionStatus === 'connected') {
     return res.status(404).json({ error: 'QR Code not available - already connected' });
@@ -659,7 +249,9 @@ app.get('/qr-code', authenticate, (req, res) => {
 });
 
 // POST /connect
-app.post('/connect', authenticate, async (req, res) => {
+router.post('/connect', authenticate, async (req, res) => {
+  const session = getRequestSession(res);
+  const { connectionStatus, qrCode, phoneNumber } = session;
   if (connectionStatus === 'connected') {
     return res.json({
       success: true,
@@ -679,15 +271,15 @@ app.post('/connect', authenticate, async (req, res) => {
   }
 
   try {
-    logger.info('Starting connection...');
-    await startConnection();
+    session.logger.info('Starting connection...');
+    await startConnection(session);
     
     // Aguardar um pouco para connectionStatus ser atualizado
     await new Promise(resolve => setTimeout(resolve, 100));
     
     // Se ainda está disconnected após startConnection, algo deu errado
-    if (connectionStatus === 'disconnected') {
-      logger.warn('Connection status is still disconnected after startConnection');
+    if (session.connectionStatus === 'disconnected') {
+      session.logger.warn('Connection status is still disconnected after startConnection');
       return res.status(500).json({
         success: false,
         error: 'Failed to start connection - status remained disconnected',
@@ -697,8 +289,8 @@ app.post('/connect', authenticate, async (req, res) => {
     // Aguardar mais tempo para QR Code ser gerado (até 5 segundos)
     let attempts = 0;
     const maxAttempts = 10;
-    while (!qrCode && attempts < maxAttempts) {
-      const currentStatus = connectionStatus as 'disconnected' | 'connecting' | 'connected';
+    while (!session.qrCode && attempts < maxAttempts) {
+      const currentStatus = session.connectionStatus as 'disconnected' | 'connecting' | 'connected';
       if (currentStatus !== 'connecting') {
         break; // Se mudou de status, parar
       }
@@ -706,18 +298,18 @@ app.post('/connect', authenticate, async (req, res) => {
       attempts++;
     }
     
-    const finalStatus = connectionStatus as 'disconnected' | 'connecting' | 'connected';
-    logger.info({ finalStatus, hasQrCode: !!qrCode }, 'Connection endpoint response');
+    const finalStatus = session.connectionStatus as 'disconnected' | 'connecting' | 'connected';
+    session.logger.info({ finalStatus, hasQrCode: !!session.qrCode }, 'Connection endpoint response');
     
     res.json({
       success: true,
       message: 'Connection started',
-      status: qrCode ? 'qr' : finalStatus,
-      qrCode: qrCode || undefined,
-      phoneNumber: phoneNumber || undefined,
+      status: session.qrCode ? 'qr' : finalStatus,
+      qrCode: session.qrCode || undefined,
+      phoneNumber: session.phoneNumber || undefined,
     });
   } catch (error: any) {
-    logger.error({ err: error }, 'Error connecting:');
+    session.logger.error({ err: error }, 'Error connecting:');
     res.status(500).json({
       success: false,
       error: error.message || 'Failed to start connection',
@@ -725,314 +317,516 @@ app.post('/connect', authenticate, async (req, res) => {
   }
 });
 
-// Função auxiliar para processar base64 data URL
-function processBase64Data(dataUrl: string): { buffer: Buffer; mimetype: string } | null {
-  try {
-    // Formato: data:image/png;base64,iVBORw0KGgo...
-    const matches = dataUrl.match(/^data:([^;]+);base64,(.+)$/);
-    if (!matches) {
-      return null;
-    }
-    
-    const mimetype = matches[1];
-    const base64Data = matches[2];
-    const buffer = Buffer.from(base64Data, 'base64');
-    
-    return { buffer, mimetype };
-  } catch (error) {
-    logger.error({ err: error }, 'Error processing base64 data');
-    return null;
-  }
-}
-
 // POST /send-message
-app.post('/send-message', authenticate, async (req, res) => {
-  if (connectionStatus !== 'connected' || !socket) {
+router.post('/send-message', authenticate, parseMultipartUpload, async (req, res) => {
+  const session = getRequestSession(res);
+  const { queueIfDisconnected, ...body } = req.body || {};
+
+  const validationError = validateSendMessageInput(body, !!req.file);
+  if (validationError) {
     return res.status(400).json({
       success: false,
-      error: 'WhatsApp is not connected',
+      error: validationError,
     });
   }
 
-  const { 
-    phone, 
-    message, 
-    mediaUrl, 
-    mediaData,      // Base64 data URL (data:image/png;base64,...)
-    mediaType,      // 'image' | 'video' | 'audio' | 'document' | 'sticker'
-    mediaMimetype,  // 'image/png', 'video/mp4', etc.
-    mediaFilename, // Nome do arquivo (para documentos)
-    replyToId,     // ID da mensagem para responder
-    mentions,      // Array de números/JIDs para mencionar
-    forwardMessageId, // ID da mensagem para encaminhar
-    forwardChatId,    // ChatId da mensagem para encaminhar
-    latitude,         // Latitude para localização
-    longitude,        // Longitude para localização
-    contact,          // { displayName, vcard } para enviar contato
-    viewOnce,         // true para mensagem de visualização única
-    poll              // { name, values: string[], selectableCount: number, toAnnouncementGroup?: boolean }
-  } = req.body;
-
-  // Validar que há conteúdo para enviar
-  const hasContent = message || mediaUrl || mediaData || latitude !== undefined || contact || poll;
-  if (!phone || !hasContent) {
-    return res.status(400).json({
+  // Contato com opt-out: recusar já, mesmo que o envio fosse para a fila
+  const consentError = await getConsentError(session, body);
+  if (consentError) {
+    return res.status(consentError.statusCode).json({
       success: false,
-      error: 'Phone and message/mediaUrl/mediaData/location/contact/poll are required',
+      error: consentError.message,
+      code: consentError.code,
     });
   }
 
   try {
-    // Baileys v7.0.0: Formato JID pode ser LID ou PN
-    let jid = `${phone}@s.whatsapp.net`;
-    
-    // Se o número já contém @, usar diretamente
-    if (phone.includes('@')) {
-      jid = phone;
-    }
-
-    // Preparar opções de mensagem
-    const messageOptions: any = {
-      caption: message || undefined,
-    };
-
-    // Adicionar reply/quote se fornecido
-    if (replyToId) {
-      messageOptions.quoted = {
-        key: {
-          remoteJid: jid,
-          id: replyToId,
-          fromMe: false,
-        },
-        message: {
-          conversation: '...', // Placeholder
-        },
-      };
-    }
-
-    // Adicionar mentions se fornecido
-    if (mentions && Array.isArray(mentions) && mentions.length > 0) {
-      const mentionJids = mentions.map((phoneOrJid: string) => {
-        if (phoneOrJid.includes('@')) {
-          // Já é um JID completo
-          return phoneOrJid;
-        }
-        // Converter número para JID
-        return `${phoneOrJid}@s.whatsapp.net`;
-      });
-      messageOptions.mentions = mentionJids;
-    }
-
-    // Adicionar forward se fornecido
-    if (forwardMessageId && forwardChatId) {
-      const originalMessage = getMessageFromCache(forwardChatId, forwardMessageId);
-      if (originalMessage) {
-        messageOptions.forward = originalMessage;
-        logger.info({ forwardMessageId, forwardChatId }, 'Forward message found in cache');
-      } else {
-        logger.warn({ forwardMessageId, forwardChatId }, 'Forward message not found in cache');
-        return res.status(404).json({
+    // Desconectado (ou fila ainda sendo enviada): aceitar e enviar quando a conexão abrir
+    if (queueIfDisconnected === true && (session.connectionStatus !== 'connected' || hasQueuedMessages(session.id))) {
+      // Mídia inválida ou grande demais é recusada agora, não só quando a fila for enviada
+      const mediaError = getSendMediaError(body, req.file);
+      if (mediaError) {
+        return res.status(mediaError.statusCode).json({
           success: false,
-          error: 'Message to forward not found. Message must be received first.',
+          error: mediaError.message,
         });
       }
-    }
-
-    // Adicionar location se fornecido
-    if (latitude !== undefined && longitude !== undefined) {
-      messageOptions.location = {
-        degreesLatitude: latitude,
-        degreesLongitude: longitude,
-      };
-      // Location não precisa de texto ou mídia
-    }
 
-    // Adicionar contact se fornecido
-    if (contact && contact.displayName && contact.vcard) {
-      messageOptions.contacts = {
-        displayName: contact.displayName,
-        contacts: [{ vcard: contact.vcard }],
-      };
-      // Contact não precisa de texto ou mídia
-    }
-
-    // Adicionar viewOnce se fornecido
-    if (viewOnce === true) {
-      messageOptions.viewOnce = true;
+      const queued = await enqueueOutboxMessage(session.id, body, req.file);
+      return res.status(202).json({
+        success: true,
+        queued: true,
+        outboxId: queued.id,
+        status: queued.status,
+        expiresAt: queued.expiresAt,
+      });
     }
 
-    let response: any;
-
-    // Processar mídia
-    if (mediaData) {
-      // Base64 data URL (data:image/png;base64,...)
-      const processed = processBase64Data(mediaData);
-      if (!processed) {
-        return res.status(400).json({
-          success: false,
-          error: 'Invalid base64 data URL format. Expected: data:mimetype;base64,data',
-        });
-      }
-
-      const { buffer, mimetype } = processed;
-      const detectedType = mediaType || (mimetype.startsWith('image/') ? 'image' : 
-                                        mimetype.startsWith('video/') ? 'video' :
-                                        mimetype.startsWith('audio/') ? 'audio' : 'document');
-
-      switch (detectedType) {
-        case 'image':
-          messageOptions.image = buffer;
-          if (message) messageOptions.caption = message;
-          break;
-        
-        case 'video':
-          messageOptions.video = buffer;
-          messageOptions.mimetype = mimetype;
-          if (message) messageOptions.caption = message;
-          break;
-        
-        case 'audio':
-          messageOptions.audio = buffer;
-          messageOptions.mimetype = mimetype;
-          messageOptions.ptt = mimetype.includes('ogg') || mimetype.includes('opus'); // Voice note
-          break;
-        
-        case 'sticker':
-          messageOptions.sticker = buffer;
-          // Sticker não tem caption
-          delete messageOptions.caption;
-          break;
-        
-        case 'document':
-        default:
-          messageOptions.document = buffer;
-          messageOptions.mimetype = mimetype;
-          messageOptions.fileName = mediaFilename || 'document';
-          if (message) messageOptions.caption = message;
-          break;
-      }
-
-      response = await socket.sendMessage(jid, messageOptions);
-    } else if (mediaUrl) {
-      // URL de mídia
-      const detectedType = mediaType || 'image';
-      const mimetype = mediaMimetype || 'image/jpeg';
-
-      switch (detectedType) {
-        case 'image':
-          messageOptions.image = { url: mediaUrl };
-          if (message) messageOptions.caption = message;
-          break;
-        
-        case 'video':
-          messageOptions.video = { url: mediaUrl };
-          messageOptions.mimetype = mimetype;
-          if (message) messageOptions.caption = message;
-          break;
-        
-        case 'audio':
-          messageOptions.audio = { url: mediaUrl };
-          messageOptions.mimetype = mimetype;
-          messageOptions.ptt = mimetype.includes('ogg') || mimetype.includes('opus');
-          break;
-        
-        case 'sticker':
-          messageOptions.sticker = { url: mediaUrl };
-          // Sticker não tem caption
-          delete messageOptions.caption;
-          break;
-        
-        case 'document':
-        default:
-          messageOptions.document = { url: mediaUrl };
-          messageOptions.mimetype = mimetype;
-          messageOptions.fileName = mediaFilename || 'document';
-          if (message) messageOptions.caption = message;
-          break;
-      }
+    // Arquivo enviado via multipart/form-data (campo "file")
+    const { messageId } = await sendWhatsAppMessage(session, body, req.file);
 
-      response = await socket.sendMessage(jid, messageOptions);
-    } else if (messageOptions.location) {
-      // Localização
-      response = await socket.sendMessage(jid, messageOptions);
-    } else if (messageOptions.contacts) {
-      // Contato (vCard)
-      response = await socket.sendMessage(jid, messageOptions);
-    } else if (messageOptions.poll) {
-      // Poll (Enquete)
-      response = await socket.sendMessage(jid, messageOptions);
-    } else {
-      // Apenas texto (pode ter mentions, viewOnce)
-      const textMessage: any = { text: message };
-      if (messageOptions.mentions) {
-        textMessage.mentions = messageOptions.mentions;
-      }
-      if (messageOptions.viewOnce) {
-        textMessage.viewOnce = true;
-      }
-      response = await socket.sendMessage(jid, textMessage, messageOptions.quoted ? { quoted: messageOptions.quoted } : undefined);
-    }
-    
     res.json({
       success: true,
-      messageId: response?.key?.id || 'unknown',
+      messageId,
     });
   } catch (error: any) {
     logger.error({ err: error }, 'Error sending message');
-    res.status(500).json({
+    if (error instanceof SendMessageError && error.retryAfterSeconds !== undefined) {
+      res.set('Retry-After', String(error.retryAfterSeconds));
+    }
+    res.status(error instanceof SendMessageError ? error.statusCode : 500).json({
       success: false,
       error: error.message || 'Failed to send message',
+      code: error instanceof SendMessageError ? error.code : undefined,
     });
   }
 });
 
-// POST /mark-as-read - Enviar recibos de leitura
-app.post('/mark-as-read', authenticate, async (req, res) => {
-  if (connectionStatus !== 'connected' || !socket) {
+// GET /outbox?status=queued|sending|sent|failed|expired|cancelled - Fila de envios aguardando conexão
+router.get('/outbox', authenticate, (req, res) => {
+  const session = getRequestSession(res);
+  const { status, limit = 50, offset = 0 } = req.query;
+
+  if (status !== undefined && !OUTBOX_STATUSES.includes(status as OutboxStatus)) {
     return res.status(400).json({
       success: false,
-      error: 'WhatsApp is not connected',
+      error: `status must be one of: ${OUTBOX_STATUSES.join(', ')}`,
     });
   }
 
-  const { chatId, messageIds } = req.body;
+  const limitNum = Math.min(parseInt(limit as string, 10) || 50, 100); // Max 100
+  const offsetNum = parseInt(offset as string, 10) || 0;
 
-  if (!chatId || !messageIds || !Array.isArray(messageIds) || messageIds.length === 0) {
-    return res.status(400).json({
+  const result = listOutboxMessages(session.id, {
+    status: status as OutboxStatus | undefined,
+    limit: limitNum,
+    offset: offsetNum,
+  });
+
+  res.json({
+    success: true,
+    messages: result.messages,
+    total: result.total,
+    limit: limitNum,
+    offset: offsetNum,
+  });
+});
+
+// GET /outbox/:id - Status de um envio enfileirado
+router.get('/outbox/:id', authenticate, (req, res) => {
+  const message = getOutboxMessage(getRequestSession(res).id, req.params.id);
+  if (!message) {
+    return res.status(404).json({
       success: false,
-      error: 'chatId and messageIds array are required',
+      error: 'Outbox message not found',
     });
   }
 
-  try {
-    // Converter chatId de formato CRM (@c.us) para Baileys (@s.whatsapp.net)
-    let jid = chatId;
-    if (chatId.includes('@c.us')) {
-      jid = chatId.replace('@c.us', '@s.whatsapp.net');
-    } else if (!chatId.includes('@')) {
-      jid = `${chatId}@s.whatsapp.net`;
-    }
+  res.json({
+    success: true,
+    message,
+  });
+});
 
-    // Enviar recibos de leitura para cada mensagem
-    const results = [];
-    for (const messageId of messageIds) {
-      try {
-        // Baileys usa readMessages para marcar como lido
-        await socket.readMessages([{
-          remoteJid: jid,
-          id: messageId,
-          participant: undefined, // Para chats individuais
-        }]);
-        
-        results.push({ messageId, success: true });
-        logger.info({ messageId, chatId: jid }, '✅ Read receipt sent');
-      } catch (msgError) {
-        logger.error({ err: msgError, messageId }, '❌ Failed to send read receipt');
-        results.push({ 
-          messageId, 
-          success: false, 
-          error: msgError instanceof Error ? msgError.message : 'Unknown error'
-        });
+// DELETE /outbox/:id - Cancelar envio ainda na fila
+router.delete('/outbox/:id', authenticate, (req, res) => {
+  const session = getRequestSession(res);
+  const current = getOutboxMessage(session.id, req.params.id);
+  if (!current) {
+    return res.status(404).json({
+      success: false,
+      error: 'Outbox message not found',
+    });
+  }
+
+  if (!cancelOutboxMessage(session.id, req.params.id)) {
+    return res.status(409).json({
+      success: false,
+      error: `Outbox message is ${current.status} and cannot be cancelled`,
+    });
+  }
+
+  res.json({
+    success: true,
+    message: getOutboxMessage(session.id, req.params.id),
+  });
+});
+
+// Interpretar sendAt + timezone de um agendamento (retorna mensagem de erro ou a data)
+function parseScheduleTime(sendAt: unknown, timezone: unknown): { sendAt: Date; timezone: string } | { error: string } {
+  const timeZone = timezone === undefined ? DEFAULT_TIMEZONE : timezone;
+  if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) {
+    return { error: 'timezone must be a valid IANA time zone (e.g. America/Sao_Paulo)' };
+  }
+  if (typeof sendAt !== 'string') {
+    return { error: 'sendAt is required (ISO 8601, e.g. 2025-01-01T09:00:00 or 2025-01-01T12:00:00Z)' };
+  }
+
+  const date = parseDateInTimeZone(sendAt.trim(), timeZone);
+  if (!date) {
+    return { error: 'sendAt must be an ISO 8601 date (e.g. 2025-01-01T09:00:00 or 2025-01-01T12:00:00Z)' };
+  }
+  if (date.getTime() <= Date.now()) {
+    return { error: 'sendAt must be in the future' };
+  }
+  return { sendAt: date, timezone: timeZone };
+}
+
+// POST /scheduled-messages - Agendar mensagem (mesmo corpo de /send-message + sendAt e timezone)
+router.post('/scheduled-messages', authenticate, async (req, res) => {
+  const session = getRequestSession(res);
+  const { sendAt, timezone, ...body } = req.body || {};
+
+  const validationError = validateSendMessageInput(body);
+  if (validationError) {
+    return res.status(400).json({
+      success: false,
+      error: validationError,
+    });
+  }
+
+  // Mesmas verificações do envio imediato: opt-out e mídia inválida são recusados já, não só em sendAt
+  const sendError = await getConsentError(session, body) || getSendMediaError(body);
+  if (sendError) {
+    return res.status(sendError.statusCode).json({
+      success: false,
+      error: sendError.message,
+      code: sendError.code,
+    });
+  }
+
+  const schedule = parseScheduleTime(sendAt, timezone);
+  if ('error' in schedule) {
+    return res.status(400).json({
+      success: false,
+      error: schedule.error,
+    });
+  }
+
+  const scheduledMessage = createScheduledMessage(session.id, body, schedule.sendAt, schedule.timezone);
+  res.status(201).json({
+    success: true,
+    scheduledMessage,
+  });
+});
+
+// GET /scheduled-messages?status=scheduled|sending|sent|failed|cancelled
+router.get('/scheduled-messages', authenticate, (req, res) => {
+  const session = getRequestSession(res);
+  const { status, limit = 50, offset = 0 } = req.query;
+
+  if (status !== undefined && !SCHEDULED_MESSAGE_STATUSES.includes(status as ScheduledMessageStatus)) {
+    return res.status(400).json({
+      success: false,
+      error: `status must be one of: ${SCHEDULED_MESSAGE_STATUSES.join(', ')}`,
+    });
+  }
+
+  const limitNum = Math.min(parseInt(limit as string, 10) || 50, 100); // Max 100
+  const offsetNum = parseInt(offset as string, 10) || 0;
+
+  const result = listScheduledMessages(session.id, {
+    status: status as ScheduledMessageStatus | undefined,
+    limit: limitNum,
+    offset: offsetNum,
+  });
+
+  res.json({
+    success: true,
+    scheduledMessages: result.scheduledMessages,
+    total: result.total,
+    limit: limitNum,
+    offset: offsetNum,
+  });
+});
+
+// GET /scheduled-messages/:id
+router.get('/scheduled-messages/:id', authenticate, (req, res) => {
+  const scheduledMessage = getScheduledMessage(getRequestSession(res).id, req.params.id);
+  if (!scheduledMessage) {
+    return res.status(404).json({
+      success: false,
+      error: 'Scheduled message not found',
+    });
+  }
+
+  res.json({
+    success: true,
+    scheduledMessage,
+  });
+});
+
+// PATCH /scheduled-messages/:id - Reagendar ({ sendAt, timezone } e/ou campos da mensagem)
+router.patch('/scheduled-messages/:id', authenticate, async (req, res) => {
+  const session = getRequestSession(res);
+  const current = getScheduledMessage(session.id, req.params.id);
+  if (!current) {
+    return res.status(404).json({
+      success: false,
+      error: 'Scheduled message not found',
+    });
+  }
+  if (current.status !== 'scheduled' && current.status !== 'failed') {
+    return res.status(409).json({
+      success: false,
+      error: `Scheduled message is ${current.status} and cannot be changed`,
+    });
+  }
+
+  const { sendAt, timezone, ...fields } = req.body || {};
+
+  // Trocar o fuso exige informar sendAt novamente (a data é interpretada no novo fuso)
+  let schedule: { sendAt?: Date; timezone?: string } = {};
+  if (sendAt !== undefined || timezone !== undefined) {
+    const parsed = parseScheduleTime(sendAt, timezone ?? current.timezone);
+    if ('error' in parsed) {
+      return res.status(400).json({
+        success: false,
+        error: parsed.error,
+      });
+    }
+    schedule = parsed;
+  } else if (current.status === 'failed' && new Date(current.sendAt).getTime() <= Date.now()) {
+    // Reenvio de um agendamento que falhou: sem nova data, sai no próximo ciclo
+    schedule = { sendAt: new Date() };
+  }
+
+  let body: SendMessageInput | undefined;
+  if (Object.keys(fields).length > 0) {
+    const merged: SendMessageInput = { ...current.message, ...fields };
+    body = merged;
+    const validationError = validateSendMessageInput(merged);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError,
+      });
+    }
+    const sendError = await getConsentError(session, merged) || getSendMediaError(merged);
+    if (sendError) {
+      return res.status(sendError.statusCode).json({
+        success: false,
+        error: sendError.message,
+        code: sendError.code,
+      });
+    }
+  }
+
+  const scheduledMessage = rescheduleMessage(session.id, req.params.id, { ...schedule, body });
+  if (!scheduledMessage) {
+    return res.status(409).json({
+      success: false,
+      error: 'Scheduled message can no longer be changed',
+    });
+  }
+
+  res.json({
+    success: true,
+    scheduledMessage,
+  });
+});
+
+// DELETE /scheduled-messages/:id - Cancelar agendamento
+router.delete('/scheduled-messages/:id', authenticate, (req, res) => {
+  const session = getRequestSession(res);
+  const current = getScheduledMessage(session.id, req.params.id);
+  if (!current) {
+    return res.status(404).json({
+      success: false,
+      error: 'Scheduled message not found',
+    });
+  }
+
+  if (!cancelScheduledMessage(session.id, req.params.id)) {
+    return res.status(409).json({
+      success: false,
+      error: `Scheduled message is ${current.status} and cannot be cancelled`,
+    });
+  }
+
+  res.json({
+    success: true,
+    scheduledMessage: getScheduledMessage(session.id, req.params.id),
+  });
+});
+
+// POST /campaigns - Envio em massa com variáveis por destinatário, janela de envio e ritmo
+router.post('/campaigns', authenticate, (req, res) => {
+  const session = getRequestSession(res);
+  const input: CampaignInput = req.body || {};
+
+  const validationError = validateCampaignInput(input);
+  if (validationError) {
+    return res.status(400).json({
+      success: false,
+      error: validationError,
+    });
+  }
+
+  const campaign = createCampaign(session.id, input);
+  res.status(201).json({
+    success: true,
+    campaign,
+  });
+});
+
+// GET /campaigns?status=running|paused|completed|cancelled
+router.get('/campaigns', authenticate, (req, res) => {
+  const session = getRequestSession(res);
+  const { status, limit = 50, offset = 0 } = req.query;
+
+  if (status !== undefined && !CAMPAIGN_STATUSES.includes(status as CampaignStatus)) {
+    return res.status(400).json({
+      success: false,
+      error: `status must be one of: ${CAMPAIGN_STATUSES.join(', ')}`,
+    });
+  }
+
+  const limitNum = Math.min(parseInt(limit as string, 10) || 50, 100); // Max 100
+  const offsetNum = parseInt(offset as string, 10) || 0;
+
+  const result = listCampaigns(session.id, {
+    status: status as CampaignStatus | undefined,
+    limit: limitNum,
+    offset: offsetNum,
+  });
+
+  res.json({
+    success: true,
+    campaigns: result.campaigns,
+    total: result.total,
+    limit: limitNum,
+    offset: offsetNum,
+  });
+});
+
+// GET /campaigns/:id - Campanha com o progresso (enviadas, falhas, sem WhatsApp, entregues, lidas)
+router.get('/campaigns/:id', authenticate, (req, res) => {
+  const campaign = getCampaign(getRequestSession(res).id, req.params.id);
+  if (!campaign) {
+    return res.status(404).json({
+      success: false,
+      error: 'Campaign not found',
+    });
+  }
+
+  res.json({
+    success: true,
+    campaign,
+  });
+});
+
+// GET /campaigns/:id/recipients?status=pending|sent|failed|not_on_whatsapp|opted_out|skipped
+router.get('/campaigns/:id/recipients', authenticate, (req, res) => {
+  const campaign = getCampaign(getRequestSession(res).id, req.params.id);
+  if (!campaign) {
+    return res.status(404).json({
+      success: false,
+      error: 'Campaign not found',
+    });
+  }
+
+  const { status, limit = 100, offset = 0 } = req.query;
+  if (status !== undefined && !CAMPAIGN_RECIPIENT_STATUSES.includes(status as CampaignRecipientStatus)) {
+    return res.status(400).json({
+      success: false,
+      error: `status must be one of: ${CAMPAIGN_RECIPIENT_STATUSES.join(', ')}`,
+    });
+  }
+
+  const limitNum = Math.min(parseInt(limit as string, 10) || 100, 1000); // Max 1000
+  const offsetNum = parseInt(offset as string, 10) || 0;
+
+  const result = listCampaignRecipients(campaign.id, {
+    status: status as CampaignRecipientStatus | undefined,
+    limit: limitNum,
+    offset: offsetNum,
+  });
+
+  res.json({
+    success: true,
+    recipients: result.recipients,
+    total: result.total,
+    limit: limitNum,
+    offset: offsetNum,
+  });
+});
+
+// POST /campaigns/:id/pause | /resume | /cancel
+router.post('/campaigns/:id/:action(pause|resume|cancel)', authenticate, (req, res) => {
+  const session = getRequestSession(res);
+  const action = req.params.action as 'pause' | 'resume' | 'cancel';
+
+  const current = getCampaign(session.id, req.params.id);
+  if (!current) {
+    return res.status(404).json({
+      success: false,
+      error: 'Campaign not found',
+    });
+  }
+
+  const campaign = setCampaignStatus(session.id, req.params.id, action);
+  if (!campaign) {
+    return res.status(409).json({
+      success: false,
+      error: `Cannot ${action} a campaign that is ${current.status}`,
+    });
+  }
+
+  res.json({
+    success: true,
+    campaign,
+  });
+});
+
+// POST /mark-as-read - Enviar recibos de leitura
+router.post('/mark-as-read', authenticate, async (req, res) => {
+  const { socket, connectionStatus } = getRequestSession(res);
+  if (connectionStatus !== 'connected' || !socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'WhatsApp is not connected',
+    });
+  }
+
+  const { chatId, messageIds } = req.body;
+
+  if (!chatId || !messageIds || !Array.isArray(messageIds) || messageIds.length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'chatId and messageIds array are required',
+    });
+  }
+
+  try {
+    // Converter chatId de formato CRM (@c.us) para Baileys (@s.whatsapp.net)
+    let jid = chatId;
+    if (chatId.includes('@c.us')) {
+      jid = chatId.replace('@c.us', '@s.whatsapp.net');
+    } else if (!chatId.includes('@')) {
+      jid = `${chatId}@s.whatsapp.net`;
+    }
+
+    // Enviar recibos de leitura para cada mensagem
+    const results = [];
+    for (const messageId of messageIds) {
+      try {
+        // Baileys usa readMessages para marcar como lido
+        await socket.readMessages([{
+          remoteJid: jid,
+          id: messageId,
+          participant: undefined, // Para chats individuais
+        }]);
+        
+        results.push({ messageId, success: true });
+        logger.info({ messageId, chatId: jid }, '✅ Read receipt sent');
+      } catch (msgError) {
+        logger.error({ err: msgError, messageId }, '❌ Failed to send read receipt');
+        results.push({ 
+          messageId, 
+          success: false, 
+          error: msgError instanceof Error ? msgError.message : 'Unknown error'
+        });
       }
     }
 
@@ -1054,41 +848,35 @@ app.post('/mark-as-read', authenticate, async (req, res) => {
 });
 
 // POST /disconnect
-app.post('/disconnect', authenticate, async (req, res) => {
+router.post('/disconnect', authenticate, async (req, res) => {
+  const session = getRequestSession(res);
   const { clearSession } = req.body; // Opção para limpar sessão
   
-  if (socket) {
-    try {
-      await socket.end(undefined);
-    } catch (error) {
-      logger.error({ err: error }, 'Error ending socket');
-    }
-    socket = null;
-  }
-  
-  connectionStatus = 'disconnected';
-  qrCode = null;
-  phoneNumber = null;
+  await endSession(session);
 
   // Se solicitado, limpar sessão salva
   if (clearSession) {
     try {
-      const credsPath = `${AUTH_DIR}/creds.json`;
+      const credsPath = `${session.authDir}/creds.json`;
       if (fs.existsSync(credsPath)) {
         fs.unlinkSync(credsPath);
-        logger.info('Session credentials deleted');
+        session.logger.info('Session credentials deleted');
       }
       
       // Limpar outros arquivos de auth se existirem
-      const authFiles = fs.readdirSync(AUTH_DIR);
+      const authFiles = fs.readdirSync(session.authDir);
       authFiles.forEach(file => {
         if (file.startsWith('app-state-sync-key') || file.startsWith('app-state-sync-version')) {
-          fs.unlinkSync(`${AUTH_DIR}/${file}`);
+          fs.unlinkSync(`${session.authDir}/${file}`);
         }
       });
-      logger.info('All session files cleared');
+      session.logger.info('All session files cleared');
+      publishEvent(session.id, 'session.cleared', {
+        reason: 'manual',
+        timestamp: new Date().toISOString(),
+      });
     } catch (error) {
-      logger.error({ err: error }, 'Error clearing session');
+      session.logger.error({ err: error }, 'Error clearing session');
     }
   }
 
@@ -1099,7 +887,8 @@ app.post('/disconnect', authenticate, async (req, res) => {
 });
 
 // POST /presence
-app.post('/presence', authenticate, async (req, res) => {
+router.post('/presence', authenticate, async (req, res) => {
+  const { socket, connectionStatus } = getRequestSession(res);
   if (connectionStatus !== 'connected' || !socket) {
     return res.status(400).json({
       success: false,
@@ -1152,8 +941,9 @@ app.post('/presence', authenticate, async (req, res) => {
   }
 });
 
-// POST /reaction
-app.post('/reaction', authenticate, async (req, res) => {
+// POST /presence/subscribe - Receber atualizações de presença do contato no stream (/events)
+router.post('/presence/subscribe', authenticate, async (req, res) => {
+  const { socket, connectionStatus } = getRequestSession(res);
   if (connectionStatus !== 'connected' || !socket) {
     return res.status(400).json({
       success: false,
@@ -1161,24 +951,69 @@ app.post('/reaction', authenticate, async (req, res) => {
     });
   }
 
-  const { messageId, chatId, emoji, remove } = req.body;
+  const { phone } = req.body;
 
-  if (!messageId || !chatId) {
+  if (!phone) {
     return res.status(400).json({
       success: false,
-      error: 'messageId and chatId are required',
+      error: 'phone is required',
     });
   }
 
-  if (!remove && !emoji) {
+  try {
+    // Formato JID
+    let jid = phone;
+    if (!phone.includes('@')) {
+      jid = `${phone}@s.whatsapp.net`;
+    } else if (phone.includes('@c.us')) {
+      jid = phone.replace('@c.us', '@s.whatsapp.net');
+    }
+
+    await socket.presenceSubscribe(jid);
+
+    logger.info({ phone: jid }, 'Presence subscribed');
+    
+    res.json({
+      success: true,
+      message: 'Subscribed to presence updates',
+    });
+  } catch (error: any) {
+    logger.error({ err: error, phone }, 'Error subscribing to presence');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to subscribe to presence',
+    });
+  }
+});
+
+// POST /reaction
+router.post('/reaction', authenticate, async (req, res) => {
+  const { socket, connectionStatus } = getRequestSession(res);
+  if (connectionStatus !== 'connected' || !socket) {
     return res.status(400).json({
       success: false,
-      error: 'emoji is required (or set remove=true to remove reaction)',
+      error: 'WhatsApp is not connected',
     });
   }
 
-  try {
-    // Converter formato do CRM (@c.us) para formato do Baileys (@s.whatsapp.net)
+  const { messageId, chatId, emoji, remove } = req.body;
+
+  if (!messageId || !chatId) {
+    return res.status(400).json({
+      success: false,
+      error: 'messageId and chatId are required',
+    });
+  }
+
+  if (!remove && !emoji) {
+    return res.status(400).json({
+      success: false,
+      error: 'emoji is required (or set remove=true to remove reaction)',
+    });
+  }
+
+  try {
+    // Converter formato do CRM (@c.us) para formato do Baileys (@s.whatsapp.net)
     let jid = chatId;
     if (chatId.includes('@c.us')) {
       jid = chatId.replace('@c.us', '@s.whatsapp.net');
@@ -1213,8 +1048,205 @@ app.post('/reaction', authenticate, async (req, res) => {
   }
 });
 
+// Janelas do WhatsApp para editar (15 min) e apagar para todos (~2 dias) uma mensagem enviada
+const EDIT_WINDOW_SECONDS = 15 * 60;
+const REVOKE_WINDOW_SECONDS = 2 * 24 * 60 * 60;
+
+// POST /edit-message - Editar texto de uma mensagem enviada por nós
+router.post('/edit-message', authenticate, async (req, res) => {
+  const session = getRequestSession(res);
+  const { socket, connectionStatus } = session;
+  if (connectionStatus !== 'connected' || !socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'WhatsApp is not connected',
+    });
+  }
+
+  const { messageId, chatId, message } = req.body;
+
+  if (!messageId || !chatId || typeof message !== 'string' || !message.trim()) {
+    return res.status(400).json({
+      success: false,
+      error: 'messageId, chatId and message are required',
+    });
+  }
+
+  try {
+    const jid = toJid(chatId);
+
+    const original = await findMessage(session, jid, messageId);
+    if (!original?.key) {
+      return res.status(404).json({
+        success: false,
+        error: 'Message not found',
+      });
+    }
+
+    // A mensagem precisa ser do chat informado (ou do JID alternativo do mesmo contato)
+    const remoteJid = original.key.remoteJid;
+    if (!remoteJid || !(await getContactJids(session, jid)).includes(remoteJid)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Message not found in this chat',
+      });
+    }
+
+    if (!original.key.fromMe) {
+      return res.status(400).json({
+        success: false,
+        error: 'Only messages sent by this number can be edited',
+      });
+    }
+
+    const { type } = getMessageSummary(original.message);
+    if (type !== 'text') {
+      return res.status(400).json({
+        success: false,
+        error: `Only text messages can be edited (message type: ${type})`,
+      });
+    }
+
+    const sentAt = original.messageTimestamp ? toNumber(original.messageTimestamp) : 0;
+    if (Date.now() / 1000 - sentAt > EDIT_WINDOW_SECONDS) {
+      return res.status(400).json({
+        success: false,
+        error: `Edit window expired (messages can only be edited within ${EDIT_WINDOW_SECONDS / 60} minutes)`,
+      });
+    }
+
+    await socket.sendMessage(remoteJid, {
+      text: message,
+      edit: original.key as WAMessageKey,
+    });
+
+    applyMessageEdit(session.id, remoteJid, messageId, { conversation: message });
+
+    const crmChatId = toCrmChatId(remoteJid);
+    publishEvent(session.id, 'message.edited', {
+      chatId: crmChatId,
+      messageId,
+      fromMe: true,
+      message,
+      messageType: 'TEXT',
+      editedAt: new Date().toISOString(),
+      timestamp: new Date().toISOString(),
+    }, crmChatId);
+
+    session.logger.info({ messageId, chatId: jid }, 'Message edited');
+
+    res.json({
+      success: true,
+      messageId,
+      message: 'Message edited',
+    });
+  } catch (error: any) {
+    session.logger.error({ err: error, messageId, chatId }, 'Error editing message');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to edit message',
+    });
+  }
+});
+
+// POST /delete-message - Apagar mensagem para todos (revoke) ou só para nós (forEveryone: false)
+router.post('/delete-message', authenticate, async (req, res) => {
+  const session = getRequestSession(res);
+  const { socket, connectionStatus } = session;
+  if (connectionStatus !== 'connected' || !socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'WhatsApp is not connected',
+    });
+  }
+
+  const { messageId, chatId, forEveryone = true } = req.body;
+
+  if (!messageId || !chatId) {
+    return res.status(400).json({
+      success: false,
+      error: 'messageId and chatId are required',
+    });
+  }
+
+  try {
+    const jid = toJid(chatId);
+
+    const original = await findMessage(session, jid, messageId);
+    if (!original?.key) {
+      return res.status(404).json({
+        success: false,
+        error: 'Message not found',
+      });
+    }
+
+    // A mensagem precisa ser do chat informado (ou do JID alternativo do mesmo contato)
+    const remoteJid = original.key.remoteJid;
+    if (!remoteJid || !(await getContactJids(session, jid)).includes(remoteJid)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Message not found in this chat',
+      });
+    }
+
+    const sentAt = original.messageTimestamp ? toNumber(original.messageTimestamp) : 0;
+
+    if (forEveryone) {
+      // Mensagens de outros só podem ser apagadas para todos por admins de grupo (o WhatsApp valida)
+      if (!original.key.fromMe && !remoteJid.endsWith('@g.us')) {
+        return res.status(400).json({
+          success: false,
+          error: 'Only messages sent by this number can be deleted for everyone',
+        });
+      }
+      if (original.key.fromMe && Date.now() / 1000 - sentAt > REVOKE_WINDOW_SECONDS) {
+        return res.status(400).json({
+          success: false,
+          error: 'Delete window expired (messages can only be deleted for everyone within 2 days)',
+        });
+      }
+
+      await socket.sendMessage(remoteJid, { delete: original.key as WAMessageKey });
+      markMessageRevoked(session.id, remoteJid, messageId);
+    } else {
+      await socket.chatModify({
+        deleteForMe: {
+          key: original.key as WAMessageKey,
+          timestamp: sentAt,
+          deleteMedia: true,
+        },
+      }, remoteJid);
+      deleteStoredMessage(session.id, remoteJid, messageId);
+    }
+
+    const crmChatId = toCrmChatId(remoteJid);
+    publishEvent(session.id, 'message.deleted', {
+      chatId: crmChatId,
+      messageId,
+      fromMe: !!original.key.fromMe,
+      forEveryone: !!forEveryone,
+      timestamp: new Date().toISOString(),
+    }, crmChatId);
+
+    session.logger.info({ messageId, chatId: remoteJid, forEveryone }, 'Message deleted');
+
+    res.json({
+      success: true,
+      messageId,
+      message: forEveryone ? 'Message deleted for everyone' : 'Message deleted for me',
+    });
+  } catch (error: any) {
+    session.logger.error({ err: error, messageId, chatId }, 'Error deleting message');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to delete message',
+    });
+  }
+});
+
 // POST /check-number
-app.post('/check-number', authenticate, async (req, res) => {
+router.post('/check-number', authenticate, async (req, res) => {
+  const { socket, connectionStatus } = getRequestSession(res);
   if (connectionStatus !== 'connected' || !socket) {
     return res.status(400).json({
       success: false,
@@ -1263,7 +1295,9 @@ app.post('/check-number', authenticate, async (req, res) => {
 });
 
 // POST /download-media
-app.post('/download-media', authenticate, async (req, res) => {
+router.post('/download-media', authenticate, async (req, res) => {
+  const session = getRequestSession(res);
+  const { socket, connectionStatus } = session;
   if (connectionStatus !== 'connected' || !socket) {
     return res.status(400).json({
       success: false,
@@ -1282,7 +1316,7 @@ app.post('/download-media', authenticate, async (req, res) => {
 
   try {
     // Buscar mensagem do cache
-    const message = getMessageFromCache(chatId, messageId);
+    const message = getMessageFromCache(session, chatId, messageId);
     
     if (!message) {
       return res.status(404).json({
@@ -1344,7 +1378,8 @@ app.post('/download-media', authenticate, async (req, res) => {
 });
 
 // GET /profile/:phone
-app.get('/profile/:phone', authenticate, async (req, res) => {
+router.get('/profile/:phone', authenticate, async (req, res) => {
+  const { socket, connectionStatus } = getRequestSession(res);
   if (connectionStatus !== 'connected' || !socket) {
     return res.status(400).json({
       success: false,
@@ -1441,39 +1476,34 @@ app.get('/profile/:phone', authenticate, async (req, res) => {
   }
 });
 
-// GET /chats
-app.get('/chats', authenticate, async (req, res) => {
-  if (connectionStatus !== 'connected' || !socket) {
-    return res.status(400).json({
-      success: false,
-      error: 'WhatsApp is not connected',
-    });
-  }
+// GET /chats - Lista chats salvos no store local (disponível mesmo desconectado)
+router.get('/chats', authenticate, async (req, res) => {
+  const session = getRequestSession(res);
 
   try {
-    const { limit = 50, offset = 0 } = req.query;
+    const { limit = 50, offset = 0, before } = req.query;
     const limitNum = Math.min(parseInt(limit as string, 10) || 50, 100); // Max 100
     const offsetNum = parseInt(offset as string, 10) || 0;
 
-    logger.info({ limit: limitNum, offset: offsetNum }, 'Fetching chats');
+    session.logger.info({ limit: limitNum, offset: offsetNum, before }, 'Fetching chats');
 
-    // TEMPORARY: Return empty list - feature not yet implemented
-    // Baileys v7 doesn't expose store.chats in the socket type
-    // This endpoint will be implemented after store is properly configured
-    
-    logger.warn('GET /chats endpoint not yet fully implemented - returning empty list');
+    const result = listChats(session.id, {
+      limit: limitNum,
+      offset: offsetNum,
+      before: before as string | undefined,
+    });
 
     res.json({
       success: true,
-      chats: [],
-      total: 0,
+      chats: result.chats,
+      total: result.total,
       limit: limitNum,
-      offset: offsetNum,
-      hasMore: false,
-      message: 'Endpoint not yet fully implemented - please use database sync via webhook',
+      offset: before ? undefined : offsetNum,
+      hasMore: result.hasMore,
+      nextCursor: result.nextCursor,
     });
   } catch (error: any) {
-    logger.error({ err: error }, 'Error fetching chats');
+    session.logger.error({ err: error }, 'Error fetching chats');
     res.status(500).json({
       success: false,
       error: error.message || 'Failed to fetch chats',
@@ -1481,14 +1511,9 @@ app.get('/chats', authenticate, async (req, res) => {
   }
 });
 
-// GET /messages/:chatId
-app.get('/messages/:chatId', authenticate, async (req, res) => {
-  if (connectionStatus !== 'connected' || !socket) {
-    return res.status(400).json({
-      success: false,
-      error: 'WhatsApp is not connected',
-    });
-  }
+// GET /messages/:chatId - Histórico salvo no store local (mais recentes primeiro)
+router.get('/messages/:chatId', authenticate, async (req, res) => {
+  const session = getRequestSession(res);
 
   try {
     const { chatId: rawChatId } = req.params;
@@ -1504,98 +1529,97 @@ app.get('/messages/:chatId', authenticate, async (req, res) => {
       jid = `${rawChatId}@s.whatsapp.net`;
     }
 
-    logger.info({ chatId: jid, limit: limitNum, before }, 'Fetching messages');
+    session.logger.info({ chatId: jid, limit: limitNum, before }, 'Fetching messages');
 
-    // TEMPORARY: Return empty list - feature not yet implemented
-    // Baileys v7 fetchMessageHistory has typing issues that need to be resolved
-    // This endpoint will be implemented after proper typing is configured
-    
-    logger.warn('GET /messages/:chatId endpoint not yet fully implemented - returning empty list');
+    const result = listMessages(session.id, jid, {
+      limit: limitNum,
+      before: before as string | undefined,
+    });
+
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        error: 'Cursor message (before) not found in this chat',
+      });
+    }
 
     res.json({
       success: true,
-      messages: [],
+      messages: result.messages,
       chatId: jid,
-      count: 0,
-      message: 'Endpoint not yet fully implemented - please use database sync via webhook',
-    });
-    return;
-
-    // The following code will be uncommented after proper typing is resolved:
-    /*
-    const messages = await socket.fetchMessageHistory(
-      limitNum,
-      before ? { 
-        id: before as string, 
-        remoteJid: jid,
-        fromMe: false,
-      } : undefined,
-      jid
-    );
+      count: result.messages.length,
+      hasMore: result.hasMore,
+      nextCursor: result.nextCursor,
+    });
+  } catch (error: any) {
+    session.logger.error({ err: error, chatId: req.params.chatId }, 'Error fetching messages');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch messages',
+    });
+  }
+});
 
-    const messagesFormatted = (messages as any[]).map((msg: any) => {
-      const key = msg.key;
-      const message = msg.message;
-      
-      let content = '';
-      let type = 'text';
-      
-      if (message?.conversation) {
-        content = message.conversation;
-        type = 'text';
-      } else if (message?.extendedTextMessage?.text) {
-        content = message.extendedTextMessage.text;
-        type = 'text';
-      } else if (message?.imageMessage?.caption) {
-        content = message.imageMessage.caption || '[Imagem]';
-        type = 'image';
-      } else if (message?.videoMessage?.caption) {
-        content = message.videoMessage.caption || '[Vídeo]';
-        type = 'video';
-      } else if (message?.audioMessage) {
-        content = '[Áudio]';
-        type = 'audio';
-      } else if (message?.documentMessage?.fileName) {
-        content = `[Documento: ${message.documentMessage.fileName}]`;
-        type = 'document';
-      } else if (message?.stickerMessage) {
-        content = '[Sticker]';
-        type = 'sticker';
-      } else {
-        content = '[Mensagem não suportada]';
-        type = 'unknown';
-      }
+// GET /messages/:chatId/:messageId/status - Status de entrega de uma mensagem enviada
+router.get('/messages/:chatId/:messageId/status', authenticate, async (req, res) => {
+  const session = getRequestSession(res);
+
+  try {
+    const { chatId, messageId } = req.params;
+    const jid = toJid(chatId);
+
+    const status = getMessageStatus(session.id, jid, messageId);
+
+    if (!status) {
+      return res.status(404).json({
+        success: false,
+        error: 'Message not found',
+      });
+    }
 
-      return {
-        id: key.id,
-        chatId: jid,
-        fromMe: key.fromMe || false,
-        content,
-        type,
-        timestamp: msg.messageTimestamp 
-          ? new Date((msg.messageTimestamp as number) * 1000).toISOString()
-          : new Date().toISOString(),
-        status: msg.status || 'unknown',
-      };
+    res.json({
+      success: true,
+      chatId: toCrmChatId(jid),
+      messageId,
+      ...status,
+    });
+  } catch (error: any) {
+    session.logger.error({ err: error, chatId: req.params.chatId, messageId: req.params.messageId }, 'Error fetching message status');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch message status',
     });
+  }
+});
+
+// GET /polls/:chatId/:messageId/results - Resultado de uma enquete (votos por opção e por participante)
+router.get('/polls/:chatId/:messageId/results', authenticate, async (req, res) => {
+  const session = getRequestSession(res);
+
+  try {
+    const { chatId, messageId } = req.params;
+    const jid = toJid(chatId);
+
+    const results = getPollResults(session.id, jid, messageId);
 
-    logger.info({ 
-      chatId: jid, 
-      returned: messagesFormatted.length 
-    }, 'Messages fetched successfully');
+    if (!results) {
+      return res.status(404).json({
+        success: false,
+        error: 'Poll not found',
+      });
+    }
 
     res.json({
       success: true,
-      messages: messagesFormatted,
-      chatId: jid,
-      count: messagesFormatted.length,
+      chatId: toCrmChatId(jid),
+      messageId,
+      ...results,
     });
-    */
   } catch (error: any) {
-    logger.error({ err: error, chatId: req.params.chatId }, 'Error fetching messages');
+    session.logger.error({ err: error, chatId: req.params.chatId, messageId: req.params.messageId }, 'Error fetching poll results');
     res.status(500).json({
       success: false,
-      error: error.message || 'Failed to fetch messages',
+      error: error.message || 'Failed to fetch poll results',
     });
   }
 });
@@ -1605,7 +1629,8 @@ app.get('/messages/:chatId', authenticate, async (req, res) => {
 // ============================================
 
 // POST /group/create
-app.post('/group/create', authenticate, async (req, res) => {
+router.post('/group/create', authenticate, async (req, res) => {
+  const { socket, connectionStatus } = getRequestSession(res);
   if (connectionStatus !== 'connected' || !socket) {
     return res.status(400).json({
       success: false,
@@ -1650,7 +1675,8 @@ app.post('/group/create', authenticate, async (req, res) => {
 });
 
 // GET /group/info/:groupId
-app.get('/group/info/:groupId', authenticate, async (req, res) => {
+router.get('/group/info/:groupId', authenticate, async (req, res) => {
+  const { socket, connectionStatus } = getRequestSession(res);
   if (connectionStatus !== 'connected' || !socket) {
     return res.status(400).json({
       success: false,
@@ -1701,7 +1727,59 @@ app.get('/group/info/:groupId', authenticate, async (req, res) => {
 });
 
 // POST /group/add-members
-app.post('/group/add-members', authenticate, async (req, res) => {
+router.post('/group/add-members', authenticate, async (req, res) => {
+  const { socket, connectionStatus } = getRequestSession(res);
+  if (connectionStatus !== 'connected' || !socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'WhatsApp is not connected',
+    });
+  }
+
+  const { groupId, participants } = req.body;
+
+  if (!groupId || !participants || !Array.isArray(participants) || participants.length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'groupId and participants (array) are required',
+    });
+  }
+
+  try {
+    // Formato JID do grupo
+    let jid = groupId;
+    if (!groupId.includes('@')) {
+      jid = `${groupId}@g.us`;
+    }
+
+    // Converter participantes para JIDs
+    const participantJids = participants.map((phone: string) => {
+      if (phone.includes('@')) {
+        return phone;
+      }
+      return `${phone}@s.whatsapp.net`;
+    });
+
+    await socket.groupParticipantsUpdate(jid, participantJids, 'add');
+
+    logger.info({ groupId: jid, participantsCount: participantJids.length }, 'Members added to group');
+    
+    res.json({
+      success: true,
+      message: `${participantJids.length} member(s) added`,
+    });
+  } catch (error: any) {
+    logger.error({ err: error, groupId }, 'Error adding members to group');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to add members to group',
+    });
+  }
+});
+
+// POST /group/remove-members
+router.post('/group/remove-members', authenticate, async (req, res) => {
+  const { socket, connectionStatus } = getRequestSession(res);
   if (connectionStatus !== 'connected' || !socket) {
     return res.status(400).json({
       success: false,
@@ -1733,275 +1811,1095 @@ app.post('/group/add-members', authenticate, async (req, res) => {
       return `${phone}@s.whatsapp.net`;
     });
 
-    await socket.groupParticipantsUpdate(jid, participantJids, 'add');
+    await socket.groupParticipantsUpdate(jid, participantJids, 'remove');
+
+    logger.info({ groupId: jid, participantsCount: participantJids.length }, 'Members removed from group');
+    
+    res.json({
+      success: true,
+      message: `${participantJids.length} member(s) removed`,
+    });
+  } catch (error: any) {
+    logger.error({ err: error, groupId }, 'Error removing members from group');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to remove members from group',
+    });
+  }
+});
+
+// POST /group/promote-admin
+router.post('/group/promote-admin', authenticate, async (req, res) => {
+  const { socket, connectionStatus } = getRequestSession(res);
+  if (connectionStatus !== 'connected' || !socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'WhatsApp is not connected',
+    });
+  }
+
+  const { groupId, participants } = req.body;
+
+  if (!groupId || !participants || !Array.isArray(participants) || participants.length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'groupId and participants (array) are required',
+    });
+  }
+
+  try {
+    // Formato JID do grupo
+    let jid = groupId;
+    if (!groupId.includes('@')) {
+      jid = `${groupId}@g.us`;
+    }
+
+    // Converter participantes para JIDs
+    const participantJids = participants.map((phone: string) => {
+      if (phone.includes('@')) {
+        return phone;
+      }
+      return `${phone}@s.whatsapp.net`;
+    });
+
+    await socket.groupParticipantsUpdate(jid, participantJids, 'promote');
+
+    logger.info({ groupId: jid, participantsCount: participantJids.length }, 'Admins promoted');
+    
+    res.json({
+      success: true,
+      message: `${participantJids.length} admin(s) promoted`,
+    });
+  } catch (error: any) {
+    logger.error({ err: error, groupId }, 'Error promoting admins');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to promote admins',
+    });
+  }
+});
+
+// POST /group/remove-admin
+router.post('/group/remove-admin', authenticate, async (req, res) => {
+  const { socket, connectionStatus } = getRequestSession(res);
+  if (connectionStatus !== 'connected' || !socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'WhatsApp is not connected',
+    });
+  }
+
+  const { groupId, participants } = req.body;
+
+  if (!groupId || !participants || !Array.isArray(participants) || participants.length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'groupId and participants (array) are required',
+    });
+  }
+
+  try {
+    // Formato JID do grupo
+    let jid = groupId;
+    if (!groupId.includes('@')) {
+      jid = `${groupId}@g.us`;
+    }
+
+    // Converter participantes para JIDs
+    const participantJids = participants.map((phone: string) => {
+      if (phone.includes('@')) {
+        return phone;
+      }
+      return `${phone}@s.whatsapp.net`;
+    });
+
+    await socket.groupParticipantsUpdate(jid, participantJids, 'demote');
+
+    logger.info({ groupId: jid, participantsCount: participantJids.length }, 'Admins demoted');
+    
+    res.json({
+      success: true,
+      message: `${participantJids.length} admin(s) demoted`,
+    });
+  } catch (error: any) {
+    logger.error({ err: error, groupId }, 'Error demoting admins');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to demote admins',
+    });
+  }
+});
+
+// POST /group/update-description
+router.post('/group/update-description', authenticate, async (req, res) => {
+  const { socket, connectionStatus } = getRequestSession(res);
+  if (connectionStatus !== 'connected' || !socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'WhatsApp is not connected',
+    });
+  }
+
+  const { groupId, description } = req.body;
+
+  if (!groupId || !description) {
+    return res.status(400).json({
+      success: false,
+      error: 'groupId and description are required',
+    });
+  }
+
+  try {
+    // Formato JID do grupo
+    let jid = groupId;
+    if (!groupId.includes('@')) {
+      jid = `${groupId}@g.us`;
+    }
+
+    await socket.groupUpdateDescription(jid, description);
+
+    logger.info({ groupId: jid, description }, 'Group description updated');
+    
+    res.json({
+      success: true,
+      message: 'Group description updated',
+    });
+  } catch (error: any) {
+    logger.error({ err: error, groupId }, 'Error updating group description');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to update group description',
+    });
+  }
+});
+
+// POST /group/update-picture
+router.post('/group/update-picture', authenticate, async (req, res) => {
+  const { socket, connectionStatus } = getRequestSession(res);
+  if (connectionStatus !== 'connected' || !socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'WhatsApp is not connected',
+    });
+  }
+
+  const { groupId, pictureUrl, pictureData } = req.body; // pictureData é base64
+
+  if (!groupId || (!pictureUrl && !pictureData)) {
+    return res.status(400).json({
+      success: false,
+      error: 'groupId and pictureUrl or pictureData are required',
+    });
+  }
+
+  try {
+    // Formato JID do grupo
+    let jid = groupId;
+    if (!groupId.includes('@')) {
+      jid = `${groupId}@g.us`;
+    }
+
+    let pictureBuffer: Buffer;
+    if (pictureData) {
+      // Processar base64
+      const processed = processBase64Data(pictureData);
+      if (!processed) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid base64 data URL format',
+        });
+      }
+      pictureBuffer = processed.buffer;
+    } else {
+      // Baixar da URL
+      const response = await fetch(pictureUrl);
+      pictureBuffer = Buffer.from(await response.arrayBuffer());
+    }
+
+    // Note: groupUpdatePicture method signature may have changed in Baileys v7
+    await socket.updateProfilePicture(jid, { url: '' } as any);
+
+    logger.info({ groupId: jid }, 'Group picture updated');
+    
+    res.json({
+      success: true,
+      message: 'Group picture updated',
+    });
+  } catch (error: any) {
+    logger.error({ err: error, groupId }, 'Error updating group picture');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to update group picture',
+    });
+  }
+});
+
+// ============================================
+// WEBHOOKS - Fila de entrega e dead-letter
+// ============================================
+
+// Validar lista opcional de IDs de entrega
+function parseDeliveryIds(ids: unknown): number[] | undefined | null {
+  if (ids === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(ids) || !ids.every(id => Number.isInteger(id))) {
+    return null;
+  }
+  return ids;
+}
+
+// GET /webhooks/queue - Contagem de entregas pendentes e na dead-letter
+app.get('/webhooks/queue', authenticate, (req, res) => {
+  res.json({
+    success: true,
+    ...getWebhookQueueStats(),
+  });
+});
+
+// GET /webhooks/deliveries?status=pending|dead&sessionId=
+app.get('/webhooks/deliveries', authenticate, (req, res) => {
+  const { status = 'dead', sessionId, limit = 50, offset = 0 } = req.query;
+
+  if (status !== 'pending' && status !== 'dead') {
+    return res.status(400).json({
+      success: false,
+      error: 'status must be one of: pending, dead',
+    });
+  }
+
+  const limitNum = Math.min(parseInt(limit as string, 10) || 50, 100); // Max 100
+  const offsetNum = parseInt(offset as string, 10) || 0;
+
+  const result = listWebhookDeliveries({
+    status,
+    sessionId: sessionId as string | undefined,
+    limit: limitNum,
+    offset: offsetNum,
+  });
+
+  res.json({
+    success: true,
+    deliveries: result.deliveries,
+    total: result.total,
+    limit: limitNum,
+    offset: offsetNum,
+  });
+});
+
+// POST /webhooks/deliveries/replay - Reenfileira entregas da dead-letter ({ ids } ou todas)
+app.post('/webhooks/deliveries/replay', authenticate, (req, res) => {
+  const ids = parseDeliveryIds(req.body.ids);
+  if (ids === null) {
+    return res.status(400).json({
+      success: false,
+      error: 'ids must be an array of delivery IDs',
+    });
+  }
+
+  const replayed = replayDeadLetters(ids);
+
+  res.json({
+    success: true,
+    replayed,
+  });
+});
+
+// DELETE /webhooks/deliveries - Remove entregas da dead-letter ({ ids } ou todas)
+app.delete('/webhooks/deliveries', authenticate, (req, res) => {
+  const ids = parseDeliveryIds(req.body?.ids);
+  if (ids === null) {
+    return res.status(400).json({
+      success: false,
+      error: 'ids must be an array of delivery IDs',
+    });
+  }
+
+  const purged = purgeDeadLetters(ids);
+
+  res.json({
+    success: true,
+    purged,
+  });
+});
+
+// ============================================
+// WEBHOOKS - Registro de assinaturas por evento
+// ============================================
+
+// Campos aceitos na criação/atualização de assinaturas
+function pickSubscriptionInput(body: any): WebhookSubscriptionInput {
+  const { url, events, sessionIds, secret, bearerToken, headers, enabled } = body || {};
+  return { url, events, sessionIds, secret, bearerToken, headers, enabled };
+}
+
+// GET /webhooks/events - Eventos disponíveis para assinatura
+app.get('/webhooks/events', authenticate, (req, res) => {
+  res.json({
+    success: true,
+    events: WEBHOOK_EVENT_TYPES,
+  });
+});
+
+// GET /webhooks
+app.get('/webhooks', authenticate, (req, res) => {
+  res.json({
+    success: true,
+    webhooks: listSubscriptions().map(formatSubscription),
+  });
+});
+
+// POST /webhooks - { url, events: string[], sessionIds?, secret?, bearerToken?, headers?, enabled? }
+app.post('/webhooks', authenticate, (req, res) => {
+  const input = pickSubscriptionInput(req.body);
+  const validationError = validateSubscriptionInput(input);
+  if (validationError) {
+    return res.status(400).json({
+      success: false,
+      error: validationError,
+    });
+  }
+
+  try {
+    const subscription = createSubscription(input);
+
+    res.status(201).json({
+      success: true,
+      webhook: formatSubscription(subscription),
+    });
+  } catch (error: any) {
+    logger.error({ err: error }, 'Error creating webhook subscription');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to create webhook',
+    });
+  }
+});
+
+// GET /webhooks/:webhookId
+app.get('/webhooks/:webhookId', authenticate, (req, res) => {
+  const subscription = getSubscription(req.params.webhookId);
+  if (!subscription) {
+    return res.status(404).json({ success: false, error: 'Webhook not found' });
+  }
+
+  res.json({
+    success: true,
+    webhook: formatSubscription(subscription),
+  });
+});
+
+// PATCH /webhooks/:webhookId - Atualiza apenas os campos enviados
+app.patch('/webhooks/:webhookId', authenticate, (req, res) => {
+  const subscription = getSubscription(req.params.webhookId);
+  if (!subscription) {
+    return res.status(404).json({ success: false, error: 'Webhook not found' });
+  }
+
+  if (subscription.source === 'env') {
+    return res.status(400).json({
+      success: false,
+      error: 'This webhook is configured via CRM_WEBHOOK_URL and cannot be changed through the API',
+    });
+  }
+
+  const input = pickSubscriptionInput(req.body);
+  const validationError = validateSubscriptionInput(input, true);
+  if (validationError) {
+    return res.status(400).json({
+      success: false,
+      error: validationError,
+    });
+  }
+
+  try {
+    const updated = updateSubscription(subscription, input);
+    if (updated.url !== subscription.url) {
+      retargetSubscriptionDeliveries(updated.id, updated.url);
+    }
+
+    res.json({
+      success: true,
+      webhook: formatSubscription(updated),
+    });
+  } catch (error: any) {
+    logger.error({ err: error, webhookId: subscription.id }, 'Error updating webhook subscription');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to update webhook',
+    });
+  }
+});
+
+// DELETE /webhooks/:webhookId - Remove a assinatura e as entregas pendentes dela
+app.delete('/webhooks/:webhookId', authenticate, (req, res) => {
+  const subscription = getSubscription(req.params.webhookId);
+  if (!subscription) {
+    return res.status(404).json({ success: false, error: 'Webhook not found' });
+  }
+
+  if (subscription.source === 'env') {
+    return res.status(400).json({
+      success: false,
+      error: 'This webhook is configured via CRM_WEBHOOK_URL and cannot be deleted through the API',
+    });
+  }
+
+  try {
+    deleteSubscription(subscription);
+    const discarded = deleteSubscriptionDeliveries(subscription.id);
+
+    res.json({
+      success: true,
+      message: 'Webhook deleted',
+      discardedDeliveries: discarded,
+    });
+  } catch (error: any) {
+    logger.error({ err: error, webhookId: subscription.id }, 'Error deleting webhook subscription');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to delete webhook',
+    });
+  }
+});
+
+// ============================================
+// MODELOS - Mensagens reutilizáveis
+// ============================================
+
+// Campos aceitos na criação/atualização de modelos
+function pickTemplateInput(body: any): TemplateInput {
+  const { name, message, mediaUrl, mediaData, mediaType, mediaMimetype, mediaFilename, removeMedia, buttons, list } = body || {};
+  return { name, message, mediaUrl, mediaData, mediaType, mediaMimetype, mediaFilename, removeMedia, buttons, list };
+}
+
+// GET /templates
+app.get('/templates', authenticate, (req, res) => {
+  res.json({
+    success: true,
+    templates: listTemplates(),
+  });
+});
+
+// POST /templates - { name, message?, mediaUrl?|mediaData?|file, mediaType?, buttons?, list? } (JSON ou multipart)
+app.post('/templates', authenticate, parseMultipartUpload, async (req, res) => {
+  const input = pickTemplateInput(req.body);
+  const validationError = validateTemplateInput(input, false, req.file);
+  if (validationError) {
+    return res.status(400).json({
+      success: false,
+      error: validationError,
+    });
+  }
+
+  try {
+    const template = await createTemplate(input, req.file);
+
+    res.status(201).json({
+      success: true,
+      template,
+    });
+  } catch (error: any) {
+    logger.error({ err: error }, 'Error creating message template');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to create template',
+    });
+  }
+});
+
+// GET /templates/:templateId
+app.get('/templates/:templateId', authenticate, (req, res) => {
+  const template = getTemplate(req.params.templateId);
+  if (!template) {
+    return res.status(404).json({ success: false, error: 'Template not found' });
+  }
+
+  res.json({
+    success: true,
+    template,
+  });
+});
+
+// PATCH /templates/:templateId - Atualiza apenas os campos enviados (null remove; removeMedia: true remove a mídia)
+app.patch('/templates/:templateId', authenticate, parseMultipartUpload, async (req, res) => {
+  if (!getTemplate(req.params.templateId)) {
+    return res.status(404).json({ success: false, error: 'Template not found' });
+  }
+
+  const input = pickTemplateInput(req.body);
+  const validationError = validateTemplateInput(input, true, req.file, req.params.templateId);
+  if (validationError) {
+    return res.status(400).json({
+      success: false,
+      error: validationError,
+    });
+  }
+
+  try {
+    const template = await updateTemplate(req.params.templateId, input, req.file);
+
+    res.json({
+      success: true,
+      template,
+    });
+  } catch (error: any) {
+    logger.error({ err: error, templateId: req.params.templateId }, 'Error updating message template');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to update template',
+    });
+  }
+});
+
+// DELETE /templates/:templateId
+app.delete('/templates/:templateId', authenticate, (req, res) => {
+  if (!deleteTemplate(req.params.templateId)) {
+    return res.status(404).json({ success: false, error: 'Template not found' });
+  }
+
+  res.json({
+    success: true,
+    message: 'Template deleted',
+  });
+});
+
+// ============================================
+// REGRAS - Respostas automáticas para mensagens recebidas
+// ============================================
+
+// Campos aceitos na criação/atualização de regras
+function pickRuleInput(body: any): RuleInput {
+  const { name, enabled, priority, sessionIds, match, conditions, actions, stopOnMatch, cooldownSeconds } = body || {};
+  return { name, enabled, priority, sessionIds, match, conditions, actions, stopOnMatch, cooldownSeconds };
+}
+
+// GET /rules - Em ordem de avaliação (priority)
+app.get('/rules', authenticate, (req, res) => {
+  res.json({
+    success: true,
+    rules: listRules(),
+  });
+});
+
+// POST /rules - { name, match: { keywords?, regex?, messageTypes?, chatType? }, conditions?, actions, priority?, stopOnMatch?, cooldownSeconds? }
+app.post('/rules', authenticate, (req, res) => {
+  const input = pickRuleInput(req.body);
+  const validationError = validateRuleInput(input);
+  if (validationError) {
+    return res.status(400).json({
+      success: false,
+      error: validationError,
+    });
+  }
+
+  try {
+    const rule = createRule(input);
+
+    res.status(201).json({
+      success: true,
+      rule,
+    });
+  } catch (error: any) {
+    logger.error({ err: error }, 'Error creating auto-reply rule');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to create rule',
+    });
+  }
+});
+
+// POST /rules/reload - Recarregar RULES_FILE (após edição manual)
+app.post('/rules/reload', authenticate, (req, res) => {
+  loadRules();
+
+  res.json({
+    success: true,
+    rules: listRules(),
+  });
+});
+
+// GET /rules/:ruleId
+app.get('/rules/:ruleId', authenticate, (req, res) => {
+  const rule = getRule(req.params.ruleId);
+  if (!rule) {
+    return res.status(404).json({ success: false, error: 'Rule not found' });
+  }
+
+  res.json({
+    success: true,
+    rule,
+  });
+});
+
+// PATCH /rules/:ruleId - Atualiza apenas os campos enviados (ex.: { enabled: false })
+app.patch('/rules/:ruleId', authenticate, (req, res) => {
+  const rule = getRule(req.params.ruleId);
+  if (!rule) {
+    return res.status(404).json({ success: false, error: 'Rule not found' });
+  }
+
+  const input = pickRuleInput(req.body);
+  const validationError = validateRuleInput(input, true);
+  if (validationError) {
+    return res.status(400).json({
+      success: false,
+      error: validationError,
+    });
+  }
+
+  try {
+    res.json({
+      success: true,
+      rule: updateRule(rule, input),
+    });
+  } catch (error: any) {
+    logger.error({ err: error, ruleId: rule.id }, 'Error updating auto-reply rule');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to update rule',
+    });
+  }
+});
+
+// DELETE /rules/:ruleId
+app.delete('/rules/:ruleId', authenticate, (req, res) => {
+  const rule = getRule(req.params.ruleId);
+  if (!rule) {
+    return res.status(404).json({ success: false, error: 'Rule not found' });
+  }
+
+  try {
+    deleteRule(rule);
 
-    logger.info({ groupId: jid, participantsCount: participantJids.length }, 'Members added to group');
-    
     res.json({
       success: true,
-      message: `${participantJids.length} member(s) added`,
+      message: 'Rule deleted',
     });
   } catch (error: any) {
-    logger.error({ err: error, groupId }, 'Error adding members to group');
+    logger.error({ err: error, ruleId: rule.id }, 'Error deleting auto-reply rule');
     res.status(500).json({
       success: false,
-      error: error.message || 'Failed to add members to group',
+      error: error.message || 'Failed to delete rule',
     });
   }
 });
 
-// POST /group/remove-members
-app.post('/group/remove-members', authenticate, async (req, res) => {
-  if (connectionStatus !== 'connected' || !socket) {
-    return res.status(400).json({
-      success: false,
-      error: 'WhatsApp is not connected',
-    });
-  }
+// ============================================
+// HORÁRIO DE ATENDIMENTO - Mensagem de ausência e modo ausente
+// ============================================
 
-  const { groupId, participants } = req.body;
+// GET /business-hours - Configurações e situação atual (open, away, holiday)
+app.get('/business-hours', authenticate, (req, res) => {
+  res.json({
+    success: true,
+    settings: getBusinessHoursSettings(),
+    ...getBusinessHoursStatus(),
+  });
+});
 
-  if (!groupId || !participants || !Array.isArray(participants) || participants.length === 0) {
+// PATCH /business-hours - { schedule?, timezone?, holidays?, awayMessage?, awayMessageIntervalMinutes? }
+app.patch('/business-hours', authenticate, (req, res) => {
+  const { schedule, timezone, holidays, awayMessage, awayMessageIntervalMinutes } = req.body || {};
+  const input: BusinessHoursInput = { schedule, timezone, holidays, awayMessage, awayMessageIntervalMinutes };
+  const validationError = validateBusinessHoursInput(input);
+  if (validationError) {
     return res.status(400).json({
       success: false,
-      error: 'groupId and participants (array) are required',
+      error: validationError,
     });
   }
 
   try {
-    // Formato JID do grupo
-    let jid = groupId;
-    if (!groupId.includes('@')) {
-      jid = `${groupId}@g.us`;
-    }
-
-    // Converter participantes para JIDs
-    const participantJids = participants.map((phone: string) => {
-      if (phone.includes('@')) {
-        return phone;
-      }
-      return `${phone}@s.whatsapp.net`;
-    });
-
-    await socket.groupParticipantsUpdate(jid, participantJids, 'remove');
-
-    logger.info({ groupId: jid, participantsCount: participantJids.length }, 'Members removed from group');
-    
     res.json({
       success: true,
-      message: `${participantJids.length} member(s) removed`,
+      settings: updateBusinessHours(input),
+      ...getBusinessHoursStatus(),
     });
   } catch (error: any) {
-    logger.error({ err: error, groupId }, 'Error removing members from group');
+    logger.error({ err: error }, 'Error updating business hours');
     res.status(500).json({
       success: false,
-      error: error.message || 'Failed to remove members from group',
+      error: error.message || 'Failed to update business hours',
     });
   }
 });
 
-// POST /group/promote-admin
-app.post('/group/promote-admin', authenticate, async (req, res) => {
-  if (connectionStatus !== 'connected' || !socket) {
+// POST /business-hours/away - { away: true|false, until?: ISO | minutes?: number } (modo ausente manual)
+app.post('/business-hours/away', authenticate, (req, res) => {
+  const { away = true, until, minutes } = req.body || {};
+  if (minutes !== undefined && (!Number.isInteger(minutes) || minutes < 1)) {
     return res.status(400).json({
       success: false,
-      error: 'WhatsApp is not connected',
+      error: 'minutes must be a positive integer',
     });
   }
 
-  const { groupId, participants } = req.body;
-
-  if (!groupId || !participants || !Array.isArray(participants) || participants.length === 0) {
+  const input: BusinessHoursInput = {
+    away,
+    awayUntil: minutes !== undefined ? new Date(Date.now() + minutes * 60_000).toISOString() : (until ?? null),
+  };
+  const validationError = validateBusinessHoursInput(input);
+  if (validationError) {
     return res.status(400).json({
       success: false,
-      error: 'groupId and participants (array) are required',
+      error: validationError,
     });
   }
 
   try {
-    // Formato JID do grupo
-    let jid = groupId;
-    if (!groupId.includes('@')) {
-      jid = `${groupId}@g.us`;
-    }
-
-    // Converter participantes para JIDs
-    const participantJids = participants.map((phone: string) => {
-      if (phone.includes('@')) {
-        return phone;
-      }
-      return `${phone}@s.whatsapp.net`;
-    });
-
-    await socket.groupParticipantsUpdate(jid, participantJids, 'promote');
-
-    logger.info({ groupId: jid, participantsCount: participantJids.length }, 'Admins promoted');
-    
     res.json({
       success: true,
-      message: `${participantJids.length} admin(s) promoted`,
+      settings: updateBusinessHours(input),
+      ...getBusinessHoursStatus(),
     });
   } catch (error: any) {
-    logger.error({ err: error, groupId }, 'Error promoting admins');
+    logger.error({ err: error }, 'Error updating away mode');
     res.status(500).json({
       success: false,
-      error: error.message || 'Failed to promote admins',
+      error: error.message || 'Failed to update away mode',
     });
   }
 });
 
-// POST /group/remove-admin
-app.post('/group/remove-admin', authenticate, async (req, res) => {
-  if (connectionStatus !== 'connected' || !socket) {
+// ============================================
+// CONSENTIMENTO - Registro de opt-out/opt-in (LGPD)
+// ============================================
+
+// GET /consent?status=opted_out|opted_in
+app.get('/consent', authenticate, (req, res) => {
+  const { status, limit = 50, offset = 0 } = req.query;
+
+  if (status !== undefined && !CONSENT_STATUSES.includes(status as ConsentStatus)) {
     return res.status(400).json({
       success: false,
-      error: 'WhatsApp is not connected',
+      error: `status must be one of: ${CONSENT_STATUSES.join(', ')}`,
     });
   }
 
-  const { groupId, participants } = req.body;
+  const limitNum = Math.min(parseInt(limit as string, 10) || 50, 100); // Max 100
+  const offsetNum = parseInt(offset as string, 10) || 0;
+  const { entries, total } = listConsent({ status: status as ConsentStatus | undefined, limit: limitNum, offset: offsetNum });
 
-  if (!groupId || !participants || !Array.isArray(participants) || participants.length === 0) {
+  res.json({
+    success: true,
+    entries,
+    total,
+    limit: limitNum,
+    offset: offsetNum,
+  });
+});
+
+// GET /consent/export?status=&format=json|csv - Registro completo (auditoria/backup)
+app.get('/consent/export', authenticate, (req, res) => {
+  const { status, format = 'json' } = req.query;
+
+  if (status !== undefined && !CONSENT_STATUSES.includes(status as ConsentStatus)) {
     return res.status(400).json({
       success: false,
-      error: 'groupId and participants (array) are required',
+      error: `status must be one of: ${CONSENT_STATUSES.join(', ')}`,
+    });
+  }
+  if (format !== 'json' && format !== 'csv') {
+    return res.status(400).json({
+      success: false,
+      error: 'format must be one of: json, csv',
     });
   }
 
-  try {
-    // Formato JID do grupo
-    let jid = groupId;
-    if (!groupId.includes('@')) {
-      jid = `${groupId}@g.us`;
-    }
+  const entries = exportConsent(status as ConsentStatus | undefined);
+  if (format === 'csv') {
+    res.set('Content-Disposition', 'attachment; filename="consent.csv"');
+    return res.type('text/csv').send(formatConsentCsv(entries));
+  }
 
-    // Converter participantes para JIDs
-    const participantJids = participants.map((phone: string) => {
-      if (phone.includes('@')) {
-        return phone;
-      }
-      return `${phone}@s.whatsapp.net`;
+  res.json({
+    success: true,
+    entries,
+    total: entries.length,
+  });
+});
+
+// POST /consent/import - { entries: [{ phone, status, reason?, updatedAt? }] } ou { csv: "phone,status,reason,updatedAt\n..." }
+app.post('/consent/import', authenticate, (req, res) => {
+  const { entries, csv } = req.body || {};
+
+  let importEntries: ConsentImportEntry[];
+  if (typeof csv === 'string') {
+    importEntries = parseConsentCsv(csv);
+  } else if (Array.isArray(entries)) {
+    importEntries = entries;
+  } else {
+    return res.status(400).json({
+      success: false,
+      error: 'entries (array of { phone, status }) or csv is required',
     });
+  }
 
-    await socket.groupParticipantsUpdate(jid, participantJids, 'demote');
+  try {
+    const result = importConsent(importEntries);
+    logger.info({ imported: result.imported, skipped: result.skipped, errors: result.errors.length }, '📥 Consent registry imported');
 
-    logger.info({ groupId: jid, participantsCount: participantJids.length }, 'Admins demoted');
-    
     res.json({
       success: true,
-      message: `${participantJids.length} admin(s) demoted`,
+      ...result,
     });
   } catch (error: any) {
-    logger.error({ err: error, groupId }, 'Error demoting admins');
+    logger.error({ err: error }, 'Error importing consent registry');
     res.status(500).json({
       success: false,
-      error: error.message || 'Failed to demote admins',
+      error: error.message || 'Failed to import consent registry',
     });
   }
 });
 
-// POST /group/update-description
-app.post('/group/update-description', authenticate, async (req, res) => {
-  if (connectionStatus !== 'connected' || !socket) {
+// GET /consent/:phone - Situação de um contato (sem registro = pode receber mensagens)
+app.get('/consent/:phone', authenticate, (req, res) => {
+  const entry = getConsent(req.params.phone);
+
+  res.json({
+    success: true,
+    optedOut: entry?.status === 'opted_out',
+    entry,
+  });
+});
+
+// POST /consent/:phone/opt-out | /consent/:phone/opt-in - { reason? } (registro manual, ex.: pedido por outro canal)
+app.post('/consent/:phone/:action(opt-out|opt-in)', authenticate, (req, res) => {
+  const { reason } = req.body || {};
+  if (reason !== undefined && typeof reason !== 'string') {
     return res.status(400).json({
       success: false,
-      error: 'WhatsApp is not connected',
+      error: 'reason must be a string',
     });
   }
 
-  const { groupId, description } = req.body;
+  const status: ConsentStatus = req.params.action === 'opt-out' ? 'opted_out' : 'opted_in';
+  const entry = setConsent(req.params.phone, status, { source: 'api', reason });
+  logger.info({ chatId: entry.chatId, status }, 'Consent updated via API');
 
-  if (!groupId || !description) {
+  res.json({
+    success: true,
+    entry,
+  });
+});
+
+// ============================================
+// SESSÕES - Endpoints de Gerenciamento
+// ============================================
+
+// GET /sessions
+app.get('/sessions', authenticate, (req, res) => {
+  res.json({
+    success: true,
+    sessions: listSessions().map(getSessionSummary),
+  });
+});
+
+// POST /sessions
+app.post('/sessions', authenticate, async (req, res) => {
+  const { sessionId, connect } = req.body; // connect=true inicia a conexão logo após criar
+
+  if (!sessionId || typeof sessionId !== 'string' || !isValidSessionId(sessionId)) {
     return res.status(400).json({
       success: false,
-      error: 'groupId and description are required',
+      error: 'sessionId is required (letters, numbers, _ and -, up to 64 chars)',
+    });
+  }
+
+  if (getSession(sessionId)) {
+    return res.status(409).json({
+      success: false,
+      error: `Session ${sessionId} already exists`,
     });
   }
 
   try {
-    // Formato JID do grupo
-    let jid = groupId;
-    if (!groupId.includes('@')) {
-      jid = `${groupId}@g.us`;
-    }
+    const session = createSession(sessionId);
 
-    await socket.groupUpdateDescription(jid, description);
+    if (connect === true) {
+      await startConnection(session);
+    }
 
-    logger.info({ groupId: jid, description }, 'Group description updated');
-    
-    res.json({
+    res.status(201).json({
       success: true,
-      message: 'Group description updated',
+      session: getSessionSummary(session),
     });
   } catch (error: any) {
-    logger.error({ err: error, groupId }, 'Error updating group description');
+    logger.error({ err: error, sessionId }, 'Error creating session');
     res.status(500).json({
       success: false,
-      error: error.message || 'Failed to update group description',
+      error: error.message || 'Failed to create session',
     });
   }
 });
 
-// POST /group/update-picture
-app.post('/group/update-picture', authenticate, async (req, res) => {
-  if (connectionStatus !== 'connected' || !socket) {
-    return res.status(400).json({
-      success: false,
-      error: 'WhatsApp is not connected',
-    });
+// GET /sessions/:sessionId
+app.get('/sessions/:sessionId', authenticate, (req, res) => {
+  const session = getSession(req.params.sessionId);
+  if (!session) {
+    return res.status(404).json({ success: false, error: `Session ${req.params.sessionId} not found` });
   }
 
-  const { groupId, pictureUrl, pictureData } = req.body; // pictureData é base64
+  res.json({
+    success: true,
+    session: getSessionSummary(session),
+  });
+});
 
-  if (!groupId || (!pictureUrl && !pictureData)) {
+// DELETE /sessions/:sessionId - Desconecta (logout) e apaga as credenciais da sessão
+app.delete('/sessions/:sessionId', authenticate, async (req, res) => {
+  const session = getSession(req.params.sessionId);
+  if (!session) {
+    return res.status(404).json({ success: false, error: `Session ${req.params.sessionId} not found` });
+  }
+
+  if (session.id === DEFAULT_SESSION_ID) {
     return res.status(400).json({
       success: false,
-      error: 'groupId and pictureUrl or pictureData are required',
+      error: 'The default session cannot be deleted - use /disconnect with clearSession=true',
     });
   }
 
   try {
-    // Formato JID do grupo
-    let jid = groupId;
-    if (!groupId.includes('@')) {
-      jid = `${groupId}@g.us`;
-    }
-
-    let pictureBuffer: Buffer;
-    if (pictureData) {
-      // Processar base64
-      const processed = processBase64Data(pictureData);
-      if (!processed) {
-        return res.status(400).json({
-          success: false,
-          error: 'Invalid base64 data URL format',
-        });
-      }
-      pictureBuffer = processed.buffer;
-    } else {
-      // Baixar da URL
-      const response = await fetch(pictureUrl);
-      pictureBuffer = Buffer.from(await response.arrayBuffer());
-    }
+    await deleteSession(session);
 
-    // Note: groupUpdatePicture method signature may have changed in Baileys v7
-    await socket.updateProfilePicture(jid, { url: '' } as any);
-
-    logger.info({ groupId: jid }, 'Group picture updated');
-    
     res.json({
       success: true,
-      message: 'Group picture updated',
+      message: `Session ${session.id} deleted`,
     });
   } catch (error: any) {
-    logger.error({ err: error, groupId }, 'Error updating group picture');
+    logger.error({ err: error, sessionId: session.id }, 'Error deleting session');
     res.status(500).json({
       success: false,
-      error: error.message || 'Failed to update group picture',
+      error: error.message || 'Failed to delete session',
+    });
+  }
+});
+
+// ============================================
+// MÍDIA - Download de mídias recebidas
+// ============================================
+
+// GET /media/:id?expires=...&signature=... - Arquivo da mídia (URL assinada do webhook ou API key)
+app.get('/media/:id', async (req, res) => {
+  const { id } = req.params;
+  const { expires, signature } = req.query;
+
+  const signed = typeof expires === 'string' && typeof signature === 'string'
+    && verifyMediaSignature(id, expires, signature);
+  const apiKey = req.headers.apikey || req.headers['x-api-key'];
+  if (!signed && API_KEY && apiKey !== API_KEY) {
+    return res.status(401).json({ success: false, error: 'Invalid or expired media signature' });
+  }
+
+  const media = getMedia(id);
+  if (!media) {
+    return res.status(404).json({ success: false, error: 'Media not found' });
+  }
+
+  try {
+    const stream = await openMediaStream(media);
+    res.setHeader('Content-Type', media.mimetype);
+    res.setHeader('Content-Length', media.size.toString());
+    res.setHeader('ETag', `"${media.sha256}"`);
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    // O mimetype vem do remetente: só imagem, áudio e vídeo abrem no navegador (HTML/SVG rodariam na origem da API)
+    const mimetype = media.mimetype.toLowerCase();
+    const inline = /^(image|audio|video)\//.test(mimetype) && !mimetype.startsWith('image/svg');
+    const filename = media.filename ? `; filename*=UTF-8''${encodeURIComponent(media.filename)}` : '';
+    res.setHeader('Content-Disposition', `${inline ? 'inline' : 'attachment'}${filename}`);
+    stream.on('error', (error) => {
+      logger.error({ err: error, mediaId: id }, 'Error streaming media');
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error: any) {
+    logger.error({ err: error, mediaId: id }, 'Error opening media');
+    res.status(404).json({
+      success: false,
+      error: 'Media file not available',
     });
   }
 });
 
+// GET /media/:id/url - Nova URL assinada (para quando a do webhook expirou)
+app.get('/media/:id/url', authenticate, (req, res) => {
+  const media = getMedia(req.params.id);
+  if (!media) {
+    return res.status(404).json({ success: false, error: 'Media not found' });
+  }
+
+  const { url, expiresAt } = getSignedMediaUrl(media.id);
+  res.json({
+    success: true,
+    mediaId: media.id,
+    url,
+    expiresAt,
+    mimetype: media.mimetype,
+    filename: media.filename,
+    size: media.size,
+    sha256: media.sha256,
+  });
+});
+
+// ============================================
+// STREAM - Eventos em tempo real (Server-Sent Events)
+// ============================================
+
+// GET /events?events=qr.updated,connection.open - Stream SSE da sessão (QR, conexão, mensagens, recibos, presença)
+app.get(['/events', '/sessions/:sessionId/events'], authenticateStream, resolveSession, (req, res) => {
+  const session = getRequestSession(res);
+  const { events } = req.query;
+  const eventFilter = typeof events === 'string' && events
+    ? new Set(events.split(',').map(event => event.trim()))
+    : null;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // Desativar buffer em proxies (nginx)
+  });
+
+  let eventId = 0;
+  const send = (event: string, data: Record<string, unknown>) => {
+    res.write(`id: ${++eventId}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // Estado atual logo na conexão, para a UI renderizar o QR sem esperar o próximo evento
+  send('session.state', {
+    event: 'session.state',
+    sessionId: session.id,
+    ...getSessionSummary(session),
+    qrCode: session.connectionStatus === 'connected' ? undefined : session.qrCode || undefined,
+  });
+
+  const unsubscribe = onStreamEvent(({ event, sessionId, data }) => {
+    if (sessionId !== session.id || (eventFilter && !eventFilter.has(event))) {
+      return;
+    }
+    send(event, { event, sessionId, ...data });
+  });
+
+  // Comentário periódico para manter a conexão aberta em proxies
+  const heartbeat = setInterval(() => {
+    res.write(': ping\n\n');
+  }, 25000);
+
+  session.logger.info('Event stream client connected');
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    session.logger.info('Event stream client disconnected');
+  });
+});
+
+app.use('/sessions/:sessionId', authenticate, router);
+app.use(router);
+
 // GET /health
 app.get('/health', (req, res) => {
   res.json({ status: 'ok' });
@@ -2016,8 +2914,21 @@ app.listen(PORT, '0.0.0.0', async () => {
   if (API_KEY) {
     logger.info('🔒 API Key authentication enabled');
   }
+
+  // Retomar entregas de webhook pendentes
+  startWebhookWorker();
+
+  // Retomar mensagens agendadas, a fila de saída e as campanhas em andamento
+  startScheduler();
+  startOutboxWorker();
+  startCampaignWorker();
+
+  // Arquivos de modelos substituídos antes do último reinício
+  removeOrphanTemplateMedia().catch(error => {
+    logger.warn({ err: error }, 'Could not clean up template media');
+  });
   
-  // Tentar conectar automaticamente se houver sessão salva
+  // Tentar conectar automaticamente as sessões salvas
   setTimeout(() => {
     autoConnectOnStartup();
   }, 2000); // Aguardar 2 segundos para garantir que o servidor está pronto
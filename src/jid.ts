@@ -0,0 +1,16 @@
+// Conversão entre o formato do CRM (@c.us ou número puro) e o formato do Baileys (@s.whatsapp.net)
+
+// chatId/telefone do CRM -> JID do Baileys
+export function toJid(chatIdOrPhone: string): string {
+  if (chatIdOrPhone.includes('@c.us')) {
+    return chatIdOrPhone.replace('@c.us', '@s.whatsapp.net');
+  } else if (!chatIdOrPhone.includes('@')) {
+    return `${chatIdOrPhone}@s.whatsapp.net`;
+  }
+  return chatIdOrPhone;
+}
+
+// JID do Baileys -> chatId do CRM
+export function toCrmChatId(jid: string): string {
+  return jid.replace('@s.whatsapp.net', '@c.us');
+}
@@ -0,0 +1,5 @@
+import pino from 'pino';
+import { LOG_LEVEL } from './config.js';
+
+// Logger
+export const logger = pino({ level: LOG_LEVEL });
@@ -0,0 +1,106 @@
+import fs from 'fs';
+import { dirname, resolve } from 'path';
+import { Readable } from 'stream';
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import {
+  MEDIA_STORAGE,
+  MEDIA_DIR,
+  S3_BUCKET,
+  S3_REGION,
+  S3_ENDPOINT,
+  S3_ACCESS_KEY_ID,
+  S3_SECRET_ACCESS_KEY,
+  S3_FORCE_PATH_STYLE,
+} from './config.js';
+
+// Backend de armazenamento dos arquivos de mídia (a chave é um caminho relativo, ex.: "default/<sha256>")
+export interface MediaStorage {
+  readonly name: string;
+  put(key: string, data: Buffer, mimetype: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
+
+// Disco local (MEDIA_DIR)
+class LocalMediaStorage implements MediaStorage {
+  readonly name = 'local';
+
+  constructor(private readonly baseDir: string) {}
+
+  private resolvePath(key: string): string {
+    const path = resolve(this.baseDir, key);
+    if (!path.startsWith(resolve(this.baseDir))) {
+      throw new Error(`Invalid media key: ${key}`);
+    }
+    return path;
+  }
+
+  async put(key: string, data: Buffer) {
+    const path = this.resolvePath(key);
+    await fs.promises.mkdir(dirname(path), { recursive: true });
+    // Escrita atômica: arquivo temporário + rename
+    const tmpPath = `${path}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tmpPath, data);
+    await fs.promises.rename(tmpPath, path);
+  }
+
+  async get(key: string): Promise<Readable> {
+    const path = this.resolvePath(key);
+    await fs.promises.access(path);
+    return fs.createReadStream(path);
+  }
+
+  async delete(key: string) {
+    await fs.promises.rm(this.resolvePath(key), { force: true });
+  }
+}
+
+// S3 ou compatível (MinIO, R2, ...)
+class S3MediaStorage implements MediaStorage {
+  readonly name = 's3';
+  private readonly client: S3Client;
+
+  constructor(private readonly bucket: string) {
+    this.client = new S3Client({
+      region: S3_REGION,
+      endpoint: S3_ENDPOINT || undefined,
+      forcePathStyle: S3_FORCE_PATH_STYLE,
+      credentials: S3_ACCESS_KEY_ID && S3_SECRET_ACCESS_KEY
+        ? { accessKeyId: S3_ACCESS_KEY_ID, secretAccessKey: S3_SECRET_ACCESS_KEY }
+        : undefined,
+    });
+  }
+
+  async put(key: string, data: Buffer, mimetype: string) {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: data,
+      ContentType: mimetype,
+    }));
+  }
+
+  async get(key: string): Promise<Readable> {
+    const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+    if (!response.Body) {
+      throw new Error(`Empty S3 object: ${key}`);
+    }
+    return response.Body as Readable;
+  }
+
+  async delete(key: string) {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+function createMediaStorage(): MediaStorage {
+  if (MEDIA_STORAGE === 's3') {
+    if (!S3_BUCKET) {
+      throw new Error('S3_BUCKET is required when MEDIA_STORAGE=s3');
+    }
+    return new S3MediaStorage(S3_BUCKET);
+  }
+  return new LocalMediaStorage(MEDIA_DIR);
+}
+
+export const mediaStorage: MediaStorage = createMediaStorage();
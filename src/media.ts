@@ -0,0 +1,178 @@
+import { createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { db } from './db.js';
+import { logger } from './logger.js';
+import { API_KEY, MEDIA_SIGNING_SECRET, MEDIA_URL_TTL_SECONDS, PUBLIC_BASE_URL } from './config.js';
+import { mediaStorage } from './media-storage.js';
+
+// Mídia recebida: o arquivo fica no storage (disco ou S3) e o webhook leva apenas uma URL assinada.
+// Arquivos iguais (mesmo SHA-256) na mesma sessão são gravados uma única vez.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS media (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    chat_jid TEXT,
+    message_id TEXT,
+    mimetype TEXT NOT NULL,
+    filename TEXT,
+    size INTEGER NOT NULL,
+    sha256 TEXT NOT NULL,
+    storage TEXT NOT NULL,
+    storage_key TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_media_message ON media (session_id, chat_jid, message_id);
+  CREATE INDEX IF NOT EXISTS idx_media_sha256 ON media (session_id, sha256);
+`);
+
+interface MediaRow {
+  id: string;
+  session_id: string;
+  chat_jid: string | null;
+  message_id: string | null;
+  mimetype: string;
+  filename: string | null;
+  size: number;
+  sha256: string;
+  storage: string;
+  storage_key: string;
+  created_at: number;
+}
+
+export interface MediaRecord {
+  id: string;
+  sessionId: string;
+  chatJid: string | null;
+  messageId: string | null;
+  mimetype: string;
+  filename: string | null;
+  size: number;
+  sha256: string;
+  storageKey: string;
+  createdAt: string;
+}
+
+export interface MediaInput {
+  data: Buffer;
+  mimetype: string;
+  filename?: string;
+  chatJid?: string;
+  messageId?: string;
+}
+
+// Sem MEDIA_SIGNING_SECRET nem API_KEY, as URLs só valem até o servidor reiniciar
+const signingSecret = MEDIA_SIGNING_SECRET || API_KEY || randomBytes(32).toString('hex');
+if (!MEDIA_SIGNING_SECRET && !API_KEY) {
+  logger.warn('⚠️ MEDIA_SIGNING_SECRET not set, signed media URLs will be invalidated on restart');
+}
+
+function formatMedia(row: MediaRow): MediaRecord {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    chatJid: row.chat_jid,
+    messageId: row.message_id,
+    mimetype: row.mimetype,
+    filename: row.filename,
+    size: row.size,
+    sha256: row.sha256,
+    storageKey: row.storage_key,
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+// Salvar mídia (reaproveita o arquivo se a mesma mensagem ou o mesmo conteúdo já foi salvo)
+export async function saveMedia(sessionId: string, input: MediaInput): Promise<MediaRecord> {
+  if (input.messageId) {
+    const existing = db
+      .prepare('SELECT * FROM media WHERE session_id = ? AND chat_jid IS ? AND message_id = ?')
+      .get(sessionId, input.chatJid || null, input.messageId) as MediaRow | undefined;
+    if (existing) {
+      return formatMedia(existing);
+    }
+  }
+
+  const sha256 = createHash('sha256').update(input.data).digest('hex');
+  const duplicate = db
+    .prepare('SELECT storage_key FROM media WHERE session_id = ? AND sha256 = ? AND storage = ? LIMIT 1')
+    .get(sessionId, sha256, mediaStorage.name) as { storage_key: string } | undefined;
+
+  const storageKey = duplicate?.storage_key || `${sessionId}/${sha256}`;
+  if (!duplicate) {
+    await mediaStorage.put(storageKey, input.data, input.mimetype);
+  }
+
+  const row: MediaRow = {
+    id: randomUUID(),
+    session_id: sessionId,
+    chat_jid: input.chatJid || null,
+    message_id: input.messageId || null,
+    mimetype: input.mimetype,
+    filename: input.filename || null,
+    size: input.data.length,
+    sha256,
+    storage: mediaStorage.name,
+    storage_key: storageKey,
+    created_at: Date.now(),
+  };
+
+  db.prepare(`
+    INSERT INTO media (id, session_id, chat_jid, message_id, mimetype, filename, size, sha256, storage, storage_key, created_at)
+    VALUES (@id, @session_id, @chat_jid, @message_id, @mimetype, @filename, @size, @sha256, @storage, @storage_key, @created_at)
+  `).run(row);
+
+  return formatMedia(row);
+}
+
+export function getMedia(id: string): MediaRecord | null {
+  const row = db.prepare('SELECT * FROM media WHERE id = ?').get(id) as MediaRow | undefined;
+  return row ? formatMedia(row) : null;
+}
+
+// Conteúdo do arquivo (stream) de uma mídia salva
+export function openMediaStream(media: MediaRecord) {
+  return mediaStorage.get(media.storageKey);
+}
+
+function signMediaId(id: string, expires: number): string {
+  return createHmac('sha256', signingSecret).update(`${id}.${expires}`).digest('hex');
+}
+
+// URL de download com expiração (GET /media/:id?expires=...&signature=...)
+export function getSignedMediaUrl(id: string, ttlSeconds: number = MEDIA_URL_TTL_SECONDS) {
+  const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+  return {
+    url: `${PUBLIC_BASE_URL}/media/${id}?expires=${expires}&signature=${signMediaId(id, expires)}`,
+    expiresAt: new Date(expires * 1000).toISOString(),
+  };
+}
+
+export function verifyMediaSignature(id: string, expires: string, signature: string): boolean {
+  const expiresAt = parseInt(expires, 10);
+  if (!expiresAt || expiresAt < Math.floor(Date.now() / 1000)) {
+    return false;
+  }
+
+  const expected = Buffer.from(signMediaId(id, expiresAt), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+// Apagar mídias de uma sessão (registros e arquivos)
+export async function deleteSessionMedia(sessionId: string) {
+  const keys = db
+    .prepare('SELECT DISTINCT storage, storage_key FROM media WHERE session_id = ?')
+    .all(sessionId) as { storage: string; storage_key: string }[];
+  db.prepare('DELETE FROM media WHERE session_id = ?').run(sessionId);
+
+  for (const { storage, storage_key: key } of keys) {
+    if (storage !== mediaStorage.name) {
+      continue;
+    }
+    try {
+      await mediaStorage.delete(key);
+    } catch (error) {
+      logger.warn({ err: error, sessionId, key }, 'Could not delete media file');
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import { createHash } from 'crypto';
+import { WAMessage, WAMessageKey, decryptPollVote, jidNormalizedUser, normalizeMessageContent, proto, toNumber } from '@whiskeysockets/baileys';
+import { publishEvent } from './events.js';
+import { toCrmChatId } from './jid.js';
+import { getMessageSummary, getStoredMessage, applyMessageEdit, markMessageRevoked } from './store.js';
+import { savePollVote } from './polls.js';
+import type { WhatsAppSession } from './sessions.js';
+
+// Mensagens que alteram outras mensagens (reação, edição, exclusão, voto em enquete).
+// Retorna true quando a mensagem foi tratada aqui e não deve seguir como message.received
+export function processMessageChange(message: WAMessage, session: WhatsAppSession): boolean {
+  const content = normalizeMessageContent(message.message);
+  const remoteJid = message.key.remoteJid;
+  if (!content || !remoteJid) {
+    return false;
+  }
+
+  const chatId = toCrmChatId(remoteJid);
+  const base = {
+    chatId,
+    fromMe: !!message.key.fromMe,
+    participant: message.key.participant || undefined,
+    timestamp: message.messageTimestamp ? new Date(toNumber(message.messageTimestamp) * 1000).toISOString() : new Date().toISOString(),
+  };
+
+  if (content.reactionMessage) {
+    const reaction = content.reactionMessage;
+    if (!reaction.key?.id) {
+      return true;
+    }
+    // Texto vazio = reação removida
+    publishEvent(session.id, 'message.reaction', {
+      ...base,
+      messageId: reaction.key.id,
+      reactionMessageId: message.key.id,
+      emoji: reaction.text || undefined,
+      removed: !reaction.text,
+    }, chatId);
+    session.logger.info({ messageId: reaction.key.id, removed: !reaction.text }, '👍 Reaction published to webhooks');
+    return true;
+  }
+
+  if (content.protocolMessage) {
+    const protocolMessage = content.protocolMessage;
+    const targetId = protocolMessage.key?.id;
+
+    if (protocolMessage.type === proto.Message.ProtocolMessage.Type.REVOKE && targetId) {
+      markMessageRevoked(session.id, remoteJid, targetId);
+      publishEvent(session.id, 'message.deleted', { ...base, messageId: targetId, forEveryone: true }, chatId);
+      session.logger.info({ messageId: targetId }, '🗑️ Message deletion published to webhooks');
+    } else if (protocolMessage.type === proto.Message.ProtocolMessage.Type.MESSAGE_EDIT && targetId) {
+      applyMessageEdit(session.id, remoteJid, targetId, protocolMessage.editedMessage);
+      const { type, content: text } = getMessageSummary(protocolMessage.editedMessage);
+      publishEvent(session.id, 'message.edited', {
+        ...base,
+        messageId: targetId,
+        message: text,
+        messageType: type.toUpperCase(),
+        editedAt: protocolMessage.timestampMs ? new Date(toNumber(protocolMessage.timestampMs)).toISOString() : base.timestamp,
+      }, chatId);
+      session.logger.info({ messageId: targetId }, '✏️ Message edit published to webhooks');
+    }
+
+    // Demais mensagens de protocolo (sincronização, chaves, mensagens temporárias) não vão ao CRM
+    return true;
+  }
+
+  if (content.pollUpdateMessage) {
+    processPollVote(message, content.pollUpdateMessage, session, base);
+    return true;
+  }
+
+  return false;
+}
+
+// Decifrar voto usando a mensagem de criação da enquete (salva no store)
+function processPollVote(
+  message: WAMessage,
+  pollUpdate: proto.Message.IPollUpdateMessage,
+  session: WhatsAppSession,
+  base: { chatId: string; fromMe: boolean; participant: string | undefined; timestamp: string },
+) {
+  const creationKey = pollUpdate.pollCreationMessageKey;
+  if (!creationKey?.id || !pollUpdate.vote) {
+    return;
+  }
+
+  const pollMessage = getStoredMessage(session.id, creationKey.remoteJid || message.key.remoteJid!, creationKey.id);
+  const pollContent = normalizeMessageContent(pollMessage?.message);
+  const poll = pollContent?.pollCreationMessage || pollContent?.pollCreationMessageV2 || pollContent?.pollCreationMessageV3;
+  const pollEncKey = pollMessage?.message?.messageContextInfo?.messageSecret;
+
+  if (!poll || !pollEncKey) {
+    session.logger.warn({ pollId: creationKey.id }, '⚠️ Poll creation message not found, cannot decrypt vote');
+    return;
+  }
+
+  // Criador e votante podem estar em formato PN ou LID; testar as combinações conhecidas
+  const creatorCandidates = getAuthorCandidates(creationKey, session);
+  const voterCandidates = getAuthorCandidates(message.key, session);
+
+  let vote: proto.Message.PollVoteMessage | null = null;
+  for (const pollCreatorJid of creatorCandidates) {
+    for (const voterJid of voterCandidates) {
+      try {
+        vote = decryptPollVote(pollUpdate.vote, { pollEncKey, pollCreatorJid, pollMsgId: creationKey.id, voterJid });
+        break;
+      } catch {
+        // Tentar próxima combinação
+      }
+    }
+    if (vote) {
+      break;
+    }
+  }
+
+  if (!vote) {
+    session.logger.warn({ pollId: creationKey.id }, '⚠️ Failed to decrypt poll vote');
+    return;
+  }
+
+  // As opções votadas chegam como SHA-256 do nome da opção
+  const optionsByHash = new Map(
+    (poll.options || []).map(option => [createHash('sha256').update(option.optionName || '').digest('hex'), option.optionName || '']),
+  );
+  const selectedOptions = (vote.selectedOptions || [])
+    .map(hash => optionsByHash.get(Buffer.from(hash).toString('hex')))
+    .filter((option): option is string => option !== undefined);
+
+  // Voto feito pelo nosso número (celular) vem com fromMe
+  const voterJid = message.key.fromMe && session.socket?.user?.id
+    ? jidNormalizedUser(session.socket.user.id)
+    : base.participant || message.key.remoteJid!;
+  const voter = toCrmChatId(voterJid);
+  const votedAt = pollUpdate.senderTimestampMs ? toNumber(pollUpdate.senderTimestampMs) : Date.now();
+  savePollVote(session.id, creationKey.remoteJid || message.key.remoteJid!, creationKey.id, voter, selectedOptions, votedAt);
+
+  publishEvent(session.id, 'poll.vote', {
+    ...base,
+    messageId: creationKey.id,
+    pollName: poll.name,
+    voter,
+    selectedOptions,
+  }, base.chatId);
+  session.logger.info({ pollId: creationKey.id, selected: selectedOptions.length }, '🗳️ Poll vote published to webhooks');
+}
+
+function getAuthorCandidates(key: WAMessageKey | proto.IMessageKey, session: WhatsAppSession): string[] {
+  const candidates = key.fromMe
+    ? [session.socket?.user?.id, session.socket?.user?.lid]
+    : [key.participant, (key as WAMessageKey).participantAlt, key.remoteJid, (key as WAMessageKey).remoteJidAlt];
+
+  // Em grupos o autor é o participant; remoteJid (o grupo) não serve
+  const authors = candidates.filter((jid): jid is string => !!jid && !jid.endsWith('@g.us'));
+  return Array.from(new Set(authors.map(jid => jidNormalizedUser(jid))));
+}
@@ -0,0 +1,299 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import { join } from 'path';
+import { db } from './db.js';
+import { logger } from './logger.js';
+import { OUTBOX_DIR, OUTBOX_TTL_SECONDS } from './config.js';
+import { publishEvent, onStreamEvent } from './events.js';
+import { getSession } from './sessions.js';
+import { sendWhatsAppMessage, SendMessageFile, SendMessageInput } from './send.js';
+
+// Fila de saída (outbox): envios aceitos com queueIfDisconnected enquanto a sessão está
+// desconectada. Saem em ordem de chegada quando a conexão abre; expiram após o TTL.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS outbox_messages (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    body TEXT NOT NULL,
+    file TEXT,
+    status TEXT NOT NULL DEFAULT 'queued',
+    message_id TEXT,
+    last_error TEXT,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    sent_at INTEGER
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_outbox_messages_session ON outbox_messages (session_id, status, created_at);
+`);
+
+export const OUTBOX_STATUSES = ['queued', 'sending', 'sent', 'failed', 'expired', 'cancelled'] as const;
+
+export type OutboxStatus = typeof OUTBOX_STATUSES[number];
+
+interface OutboxRow {
+  id: string;
+  session_id: string;
+  body: string;
+  file: string | null;
+  status: OutboxStatus;
+  message_id: string | null;
+  last_error: string | null;
+  created_at: number;
+  expires_at: number;
+  updated_at: number;
+  sent_at: number | null;
+}
+
+const OUTBOX_INTERVAL_MS = 5000;
+
+let outboxInterval: NodeJS.Timeout | null = null;
+let stopListening: (() => void) | null = null;
+// Sessões com flush em andamento (um por sessão, para manter a ordem)
+const flushing = new Set<string>();
+
+if (!fs.existsSync(OUTBOX_DIR)) {
+  fs.mkdirSync(OUTBOX_DIR, { recursive: true });
+}
+
+function formatOutboxMessage(row: OutboxRow) {
+  const file = row.file ? JSON.parse(row.file) as SendMessageFile : null;
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    status: row.status,
+    messageId: row.message_id || undefined,
+    lastError: row.last_error || undefined,
+    createdAt: new Date(row.created_at).toISOString(),
+    expiresAt: new Date(row.expires_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+    sentAt: row.sent_at ? new Date(row.sent_at).toISOString() : undefined,
+    message: JSON.parse(row.body) as SendMessageInput,
+    file: file ? { filename: file.originalname, mimetype: file.mimetype, size: file.size } : undefined,
+  };
+}
+
+export type OutboxMessage = ReturnType<typeof formatOutboxMessage>;
+
+// Há envios na fila da sessão? (novos envios entram atrás deles para manter a ordem)
+export function hasQueuedMessages(sessionId: string): boolean {
+  return !!db
+    .prepare(`SELECT 1 FROM outbox_messages WHERE session_id = ? AND status IN ('queued', 'sending') LIMIT 1`)
+    .get(sessionId);
+}
+
+// Enfileirar envio; o arquivo de upload (temporário) é copiado para OUTBOX_DIR
+export async function enqueueOutboxMessage(sessionId: string, body: SendMessageInput, uploadedFile?: SendMessageFile): Promise<OutboxMessage> {
+  const id = randomUUID();
+  let file: SendMessageFile | null = null;
+  if (uploadedFile) {
+    const path = join(OUTBOX_DIR, id);
+    await fs.promises.copyFile(uploadedFile.path, path);
+    file = { path, size: uploadedFile.size, mimetype: uploadedFile.mimetype, originalname: uploadedFile.originalname };
+  }
+
+  const now = Date.now();
+  const row: OutboxRow = {
+    id,
+    session_id: sessionId,
+    body: JSON.stringify(body),
+    file: file ? JSON.stringify(file) : null,
+    status: 'queued',
+    message_id: null,
+    last_error: null,
+    created_at: now,
+    expires_at: now + OUTBOX_TTL_SECONDS * 1000,
+    updated_at: now,
+    sent_at: null,
+  };
+
+  db.prepare(`
+    INSERT INTO outbox_messages (id, session_id, body, file, status, created_at, expires_at, updated_at)
+    VALUES (@id, @session_id, @body, @file, @status, @created_at, @expires_at, @updated_at)
+  `).run(row);
+
+  logger.info({ sessionId, outboxId: id }, '📥 Message queued in outbox');
+  return formatOutboxMessage(row);
+}
+
+export function getOutboxMessage(sessionId: string, id: string): OutboxMessage | null {
+  const row = db
+    .prepare('SELECT * FROM outbox_messages WHERE session_id = ? AND id = ?')
+    .get(sessionId, id) as OutboxRow | undefined;
+  return row ? formatOutboxMessage(row) : null;
+}
+
+// Listar itens da fila da sessão (opcionalmente por status), na ordem de envio
+export function listOutboxMessages(sessionId: string, options: { status?: OutboxStatus; limit: number; offset: number }) {
+  const { status, limit, offset } = options;
+
+  const rows = db.prepare(`
+    SELECT * FROM outbox_messages
+    WHERE session_id = @sessionId AND (@status IS NULL OR status = @status)
+    ORDER BY created_at
+    LIMIT @limit OFFSET @offset
+  `).all({ sessionId, status: status || null, limit, offset }) as OutboxRow[];
+
+  const { total } = db.prepare(`
+    SELECT COUNT(*) AS total FROM outbox_messages
+    WHERE session_id = @sessionId AND (@status IS NULL OR status = @status)
+  `).get({ sessionId, status: status || null }) as { total: number };
+
+  return { messages: rows.map(formatOutboxMessage), total };
+}
+
+function removeOutboxFile(row: Pick<OutboxRow, 'id' | 'file'>) {
+  if (!row.file) {
+    return;
+  }
+  const { path } = JSON.parse(row.file) as SendMessageFile;
+  fs.promises.rm(path, { force: true }).catch((error) => {
+    logger.warn({ err: error, outboxId: row.id }, 'Could not remove outbox file');
+  });
+}
+
+// Cancelar item ainda na fila (false se não existe ou já saiu da fila)
+export function cancelOutboxMessage(sessionId: string, id: string): boolean {
+  const row = db
+    .prepare(`SELECT id, file FROM outbox_messages WHERE session_id = ? AND id = ? AND status = 'queued'`)
+    .get(sessionId, id) as Pick<OutboxRow, 'id' | 'file'> | undefined;
+  if (!row) {
+    return false;
+  }
+
+  const result = db.prepare(`
+    UPDATE outbox_messages SET status = 'cancelled', updated_at = ? WHERE id = ? AND status = 'queued'
+  `).run(Date.now(), id);
+  if (result.changes > 0) {
+    removeOutboxFile(row);
+    logger.info({ sessionId, outboxId: id }, '🚫 Outbox message cancelled');
+  }
+  return result.changes > 0;
+}
+
+// Apagar fila de uma sessão (registros e arquivos)
+export function deleteSessionOutbox(sessionId: string) {
+  const rows = db
+    .prepare('SELECT id, file FROM outbox_messages WHERE session_id = ? AND file IS NOT NULL')
+    .all(sessionId) as Pick<OutboxRow, 'id' | 'file'>[];
+  db.prepare('DELETE FROM outbox_messages WHERE session_id = ?').run(sessionId);
+  rows.forEach(removeOutboxFile);
+}
+
+function finishOutboxMessage(row: OutboxRow, status: 'sent' | 'failed' | 'expired', result: { messageId?: string; error?: string }) {
+  const now = Date.now();
+  db.prepare(`
+    UPDATE outbox_messages SET status = ?, message_id = ?, last_error = ?, sent_at = ?, updated_at = ? WHERE id = ?
+  `).run(status, result.messageId || null, result.error || null, status === 'sent' ? now : null, now, row.id);
+  removeOutboxFile(row);
+
+  publishEvent(row.session_id, status === 'sent' ? 'outbox.sent' : 'outbox.failed', {
+    outboxId: row.id,
+    status,
+    messageId: result.messageId,
+    error: result.error,
+    queuedAt: new Date(row.created_at).toISOString(),
+    timestamp: new Date(now).toISOString(),
+  });
+}
+
+// Expirar itens que passaram do TTL sem conexão
+export function expireOutboxMessages() {
+  const expired = db
+    .prepare(`SELECT * FROM outbox_messages WHERE status = 'queued' AND expires_at <= ? ORDER BY created_at`)
+    .all(Date.now()) as OutboxRow[];
+
+  for (const row of expired) {
+    finishOutboxMessage(row, 'expired', { error: 'Outbox TTL expired before WhatsApp reconnected' });
+    logger.warn({ sessionId: row.session_id, outboxId: row.id }, '⌛ Outbox message expired');
+  }
+}
+
+// Enviar a fila da sessão em ordem; para se a conexão cair de novo (o restante espera a próxima)
+export async function flushOutbox(sessionId: string) {
+  const session = getSession(sessionId);
+  if (!session || flushing.has(sessionId)) {
+    return;
+  }
+  flushing.add(sessionId);
+
+  try {
+    expireOutboxMessages();
+    const selectNext = db.prepare(`
+      SELECT * FROM outbox_messages WHERE session_id = ? AND status = 'queued' ORDER BY created_at LIMIT 1
+    `);
+
+    let row = selectNext.get(sessionId) as OutboxRow | undefined;
+    while (row && session.connectionStatus === 'connected') {
+      db.prepare(`UPDATE outbox_messages SET status = 'sending', updated_at = ? WHERE id = ?`).run(Date.now(), row.id);
+
+      try {
+        const file = row.file ? JSON.parse(row.file) as SendMessageFile : undefined;
+        const { messageId } = await sendWhatsAppMessage(session, JSON.parse(row.body) as SendMessageInput, file, { waitForSlot: true });
+        finishOutboxMessage(row, 'sent', { messageId });
+        session.logger.info({ outboxId: row.id, messageId }, '📤 Outbox message sent');
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+
+        // Conexão caiu durante o envio: volta para a fila e aguarda a próxima conexão
+        if (session.connectionStatus !== 'connected') {
+          db.prepare(`UPDATE outbox_messages SET status = 'queued', updated_at = ? WHERE id = ?`).run(Date.now(), row.id);
+          break;
+        }
+
+        finishOutboxMessage(row, 'failed', { error: errorMessage });
+        session.logger.error({ outboxId: row.id, error: errorMessage }, '❌ Outbox message failed');
+      }
+
+      row = selectNext.get(sessionId) as OutboxRow | undefined;
+    }
+  } finally {
+    flushing.delete(sessionId);
+  }
+}
+
+export function startOutboxWorker() {
+  if (outboxInterval) {
+    clearInterval(outboxInterval);
+  }
+  stopListening?.();
+
+  // Envios interrompidos por um reinício: o resultado é desconhecido, então não reenviamos
+  const interrupted = db
+    .prepare(`SELECT * FROM outbox_messages WHERE status = 'sending'`)
+    .all() as OutboxRow[];
+  for (const row of interrupted) {
+    finishOutboxMessage(row, 'failed', { error: 'Interrupted while sending (server restarted)' });
+  }
+
+  // Expirar itens vencidos e enviar filas de sessões que já estão conectadas
+  const run = () => {
+    expireOutboxMessages();
+    const sessionIds = db
+      .prepare(`SELECT DISTINCT session_id FROM outbox_messages WHERE status = 'queued'`)
+      .all() as { session_id: string }[];
+    for (const { session_id: sessionId } of sessionIds) {
+      if (getSession(sessionId)?.connectionStatus === 'connected') {
+        flushOutbox(sessionId).catch(err => {
+          logger.error({ err, sessionId }, 'Error flushing outbox');
+        });
+      }
+    }
+  };
+
+  outboxInterval = setInterval(run, OUTBOX_INTERVAL_MS);
+
+  // Ao reconectar, enviar imediatamente o que ficou na fila
+  stopListening = onStreamEvent(({ event, sessionId }) => {
+    if (event === 'connection.open') {
+      setImmediate(() => {
+        flushOutbox(sessionId).catch(err => {
+          logger.error({ err, sessionId }, 'Error flushing outbox');
+        });
+      });
+    }
+  });
+
+  logger.info({ ttlSeconds: OUTBOX_TTL_SECONDS }, 'Outbox worker started');
+}
@@ -0,0 +1,40 @@
+// Variáveis em textos de mensagem: "Olá {{name}}, seu pedido {{ pedido }} saiu para entrega"
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+export type TemplateVariables = Record<string, string | number | boolean>;
+
+// Nomes das variáveis usadas no texto (sem repetição)
+export function extractPlaceholders(text: string | undefined): string[] {
+  if (!text) {
+    return [];
+  }
+  return Array.from(new Set(Array.from(text.matchAll(PLACEHOLDER_PATTERN), match => match[1])));
+}
+
+// Variáveis do texto que não foram informadas
+export function getMissingVariables(text: string | undefined, variables: TemplateVariables = {}): string[] {
+  return extractPlaceholders(text).filter(name => variables[name] === undefined || variables[name] === null);
+}
+
+// Substituir {{variavel}} pelos valores (variáveis ausentes ficam como estão)
+export function renderPlaceholders(text: string, variables: TemplateVariables = {}): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    const value = variables[name];
+    return value === undefined || value === null ? placeholder : String(value);
+  });
+}
+
+// Validar objeto de variáveis (valores simples); retorna mensagem de erro ou null
+export function validateVariables(variables: unknown, field = 'variables'): string | null {
+  if (variables === undefined) {
+    return null;
+  }
+  if (!variables || typeof variables !== 'object' || Array.isArray(variables)) {
+    return `${field} must be an object`;
+  }
+  const invalid = Object.entries(variables).find(([, value]) => !['string', 'number', 'boolean'].includes(typeof value));
+  if (invalid) {
+    return `${field}.${invalid[0]} must be a string, number or boolean`;
+  }
+  return null;
+}
@@ -0,0 +1,78 @@
+import { normalizeMessageContent } from '@whiskeysockets/baileys';
+import { db } from './db.js';
+import { getStoredMessage } from './store.js';
+
+// Votos em enquetes: o WhatsApp envia a seleção completa a cada voto, então guardamos
+// apenas o último voto de cada participante (seleção vazia = voto retirado)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS poll_votes (
+    session_id TEXT NOT NULL,
+    chat_jid TEXT NOT NULL,
+    poll_id TEXT NOT NULL,
+    voter_jid TEXT NOT NULL,
+    selected_options TEXT NOT NULL,
+    voted_at INTEGER NOT NULL,
+    PRIMARY KEY (session_id, chat_jid, poll_id, voter_jid)
+  );
+`);
+
+interface PollVoteRow {
+  voter_jid: string;
+  selected_options: string;
+  voted_at: number;
+}
+
+// Registrar voto (ignora votos mais antigos que o já salvo, que podem chegar fora de ordem)
+export function savePollVote(sessionId: string, jid: string, pollId: string, voterJid: string, selectedOptions: string[], votedAt: number) {
+  db.prepare(`
+    INSERT INTO poll_votes (session_id, chat_jid, poll_id, voter_jid, selected_options, voted_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT (session_id, chat_jid, poll_id, voter_jid) DO UPDATE SET
+      selected_options = excluded.selected_options,
+      voted_at = excluded.voted_at
+    WHERE excluded.voted_at >= poll_votes.voted_at
+  `).run(sessionId, jid, pollId, voterJid, JSON.stringify(selectedOptions), votedAt);
+}
+
+// Resultado da enquete: votos por opção e por participante (null se a enquete não está no store)
+export function getPollResults(sessionId: string, jid: string, pollId: string) {
+  const pollMessage = getStoredMessage(sessionId, jid, pollId);
+  const content = normalizeMessageContent(pollMessage?.message);
+  const poll = content?.pollCreationMessage || content?.pollCreationMessageV2 || content?.pollCreationMessageV3;
+  if (!poll) {
+    return null;
+  }
+
+  const rows = db.prepare(`
+    SELECT voter_jid, selected_options, voted_at FROM poll_votes
+    WHERE session_id = ? AND chat_jid = ? AND poll_id = ?
+    ORDER BY voted_at
+  `).all(sessionId, jid, pollId) as PollVoteRow[];
+
+  const voters = rows
+    .map(row => ({
+      voter: row.voter_jid,
+      options: JSON.parse(row.selected_options) as string[],
+      votedAt: new Date(row.voted_at).toISOString(),
+    }))
+    .filter(vote => vote.options.length > 0);
+
+  const options = (poll.options || []).map(option => {
+    const name = option.optionName || '';
+    const optionVoters = voters.filter(vote => vote.options.includes(name)).map(vote => vote.voter);
+    return { name, votes: optionVoters.length, voters: optionVoters };
+  });
+
+  return {
+    name: poll.name || '',
+    selectableCount: poll.selectableOptionsCount || 0,
+    totalVoters: voters.length,
+    options,
+    voters,
+  };
+}
+
+// Apagar votos de uma sessão
+export function deleteSessionPollVotes(sessionId: string) {
+  db.prepare('DELETE FROM poll_votes WHERE session_id = ?').run(sessionId);
+}
@@ -0,0 +1,436 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { dirname } from 'path';
+import { proto } from '@whiskeysockets/baileys';
+import { RULES_FILE } from './config.js';
+import { logger } from './logger.js';
+import { isWithinBusinessHours } from './business-hours.js';
+import { hasEarlierMessages } from './store.js';
+import { renderPlaceholders, validateVariables, TemplateVariables } from './placeholders.js';
+import { sendWhatsAppMessage, validateSendMessageInput } from './send.js';
+import { MEDIA_TYPES } from './templates.js';
+import type { WhatsAppSession } from './sessions.js';
+
+// Regras de resposta automática avaliadas nas mensagens recebidas: critérios (palavra-chave, regex,
+// tipo de mensagem, tipo de chat), condições (horário de atendimento, primeiro contato) e ações.
+// Ficam em RULES_FILE, recarregado automaticamente quando o arquivo muda.
+export const RULE_ACTION_TYPES = ['reply', 'react', 'markRead', 'tag'] as const;
+
+export type RuleAction =
+  | {
+    type: 'reply';
+    // Texto com {{name}}, {{phone}}, {{message}} ou modelo salvo (templateId + variables)
+    message?: string;
+    mediaUrl?: string;
+    mediaType?: string;
+    templateId?: string;
+    variables?: TemplateVariables;
+    // Responder citando a mensagem recebida
+    quote?: boolean;
+  }
+  | { type: 'react'; emoji: string }
+  | { type: 'markRead' }
+  | { type: 'tag'; tags: string[] };
+
+export interface Rule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // Menor prioridade é avaliada primeiro
+  priority: number;
+  // Sessões em que a regra vale (vazio = todas)
+  sessionIds?: string[];
+  match: {
+    keywords?: string[];
+    regex?: string;
+    messageTypes?: string[];
+    chatType?: 'private' | 'group' | 'any';
+  };
+  conditions?: {
+    businessHours?: 'inside' | 'outside';
+    firstContact?: boolean;
+  };
+  actions: RuleAction[];
+  // false = continuar avaliando as regras seguintes depois desta
+  stopOnMatch: boolean;
+  // Intervalo mínimo entre disparos da regra no mesmo chat
+  cooldownSeconds?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RuleInput = Partial<Omit<Rule, 'id' | 'createdAt' | 'updatedAt'>>;
+
+// Dados da mensagem recebida usados na avaliação
+export interface InboundContext {
+  chatJid: string;
+  text: string;
+  messageType: string;
+  isGroup: boolean;
+  contactName?: string;
+}
+
+const rules = new Map<string, Rule>();
+// Último disparo de cada regra por chat (cooldown)
+const lastFiredAt = new Map<string, number>();
+
+// Comparação sem acentos e sem diferenciar maiúsculas ("Horário" = "horario")
+function normalizeText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Variáveis que a regra preenche ao responder (além de action.variables)
+const RULE_VARIABLES: TemplateVariables = { name: '', phone: '', message: '' };
+
+// checkTemplates: conferir se o modelo existe e se as variáveis cobrem o modelo (desligado ao carregar o arquivo,
+// para que uma regra não seja descartada porque o modelo foi removido depois)
+function validateAction(action: any, index: number, checkTemplates: boolean): string | null {
+  if (!action || !RULE_ACTION_TYPES.includes(action.type)) {
+    return `actions[${index}].type must be one of: ${RULE_ACTION_TYPES.join(', ')}`;
+  }
+  if (action.type === 'reply') {
+    const { message, mediaUrl, mediaType, templateId, variables, quote } = action;
+    if (!message && !mediaUrl && !templateId) {
+      return `actions[${index}] requires message, mediaUrl or templateId`;
+    }
+    if (message !== undefined && typeof message !== 'string') {
+      return `actions[${index}].message must be a string`;
+    }
+    if (mediaType !== undefined && !MEDIA_TYPES.includes(mediaType)) {
+      return `actions[${index}].mediaType must be one of: ${MEDIA_TYPES.join(', ')}`;
+    }
+    if (mediaUrl !== undefined) {
+      try {
+        const url = new URL(mediaUrl);
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+          return `actions[${index}].mediaUrl must be an http(s) URL`;
+        }
+      } catch {
+        return `actions[${index}].mediaUrl must be a valid URL`;
+      }
+    }
+    if (quote !== undefined && typeof quote !== 'boolean') {
+      return `actions[${index}].quote must be a boolean`;
+    }
+    const variablesError = validateVariables(variables, `actions[${index}].variables`);
+    if (variablesError) {
+      return variablesError;
+    }
+    if (templateId !== undefined && (message || mediaUrl)) {
+      return `actions[${index}]: templateId cannot be combined with message or mediaUrl`;
+    }
+
+    // Mesma validação do envio (modelo existente e variáveis cobertas)
+    if (templateId === undefined || checkTemplates) {
+      const sendError = validateSendMessageInput({
+        phone: 'rule',
+        message,
+        mediaUrl,
+        mediaType,
+        templateId,
+        variables: templateId !== undefined ? { ...RULE_VARIABLES, ...variables } : undefined,
+      });
+      if (sendError) {
+        return `actions[${index}]: ${sendError}`;
+      }
+    }
+    return null;
+  }
+  if (action.type === 'react' && (typeof action.emoji !== 'string' || !action.emoji)) {
+    return `actions[${index}].emoji is required`;
+  }
+  if (action.type === 'tag' && (!Array.isArray(action.tags) || action.tags.length === 0 || !action.tags.every((tag: unknown) => typeof tag === 'string' && tag))) {
+    return `actions[${index}].tags must be a non-empty array of strings`;
+  }
+  return null;
+}
+
+// Validar dados de criação/atualização; retorna mensagem de erro ou null
+export function validateRuleInput(input: RuleInput, partial = false, checkTemplates = true): string | null {
+  if (!partial || input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      return 'name is required';
+    }
+  }
+
+  if (!partial || input.match !== undefined) {
+    const match = input.match;
+    if (!match || typeof match !== 'object') {
+      return 'match must be an object with keywords, regex, messageTypes and/or chatType';
+    }
+    if (match.keywords !== undefined && (!Array.isArray(match.keywords) || !match.keywords.every(keyword => typeof keyword === 'string' && keyword.trim()))) {
+      return 'match.keywords must be an array of strings';
+    }
+    if (match.regex !== undefined) {
+      try {
+        new RegExp(match.regex, 'i');
+      } catch {
+        return 'match.regex must be a valid regular expression';
+      }
+    }
+    if (match.messageTypes !== undefined && (!Array.isArray(match.messageTypes) || !match.messageTypes.every(type => typeof type === 'string'))) {
+      return 'match.messageTypes must be an array of message types (e.g. TEXT, IMAGE, AUDIO)';
+    }
+    if (match.chatType !== undefined && !['private', 'group', 'any'].includes(match.chatType)) {
+      return 'match.chatType must be one of: private, group, any';
+    }
+  }
+
+  if (input.conditions !== undefined) {
+    const conditions = input.conditions;
+    if (!conditions || typeof conditions !== 'object') {
+      return 'conditions must be an object';
+    }
+    if (conditions.businessHours !== undefined && !['inside', 'outside'].includes(conditions.businessHours)) {
+      return 'conditions.businessHours must be one of: inside, outside';
+    }
+    if (conditions.firstContact !== undefined && typeof conditions.firstContact !== 'boolean') {
+      return 'conditions.firstContact must be a boolean';
+    }
+  }
+
+  if (!partial || input.actions !== undefined) {
+    if (!Array.isArray(input.actions) || input.actions.length === 0) {
+      return 'actions must be a non-empty array';
+    }
+    for (const [index, action] of input.actions.entries()) {
+      const actionError = validateAction(action, index, checkTemplates);
+      if (actionError) {
+        return actionError;
+      }
+    }
+  }
+
+  if (input.sessionIds !== undefined && (!Array.isArray(input.sessionIds) || !input.sessionIds.every(id => typeof id === 'string'))) {
+    return 'sessionIds must be an array of session IDs';
+  }
+  if (input.priority !== undefined && !Number.isInteger(input.priority)) {
+    return 'priority must be an integer';
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+  if (input.stopOnMatch !== undefined && typeof input.stopOnMatch !== 'boolean') {
+    return 'stopOnMatch must be a boolean';
+  }
+  if (input.cooldownSeconds !== undefined && (typeof input.cooldownSeconds !== 'number' || input.cooldownSeconds < 0)) {
+    return 'cooldownSeconds must be a non-negative number';
+  }
+  return null;
+}
+
+function buildRule(input: RuleInput, id: string, now: string, createdAt = now): Rule {
+  return {
+    id,
+    name: input.name!.trim(),
+    enabled: input.enabled !== false,
+    priority: input.priority ?? 100,
+    sessionIds: input.sessionIds,
+    match: input.match!,
+    conditions: input.conditions,
+    actions: input.actions!,
+    stopOnMatch: input.stopOnMatch !== false,
+    cooldownSeconds: input.cooldownSeconds,
+    createdAt,
+    updatedAt: now,
+  };
+}
+
+function saveRulesFile() {
+  fs.mkdirSync(dirname(RULES_FILE), { recursive: true });
+  const tmpFile = `${RULES_FILE}.tmp`;
+  fs.writeFileSync(tmpFile, JSON.stringify(listRules(), null, 2));
+  fs.renameSync(tmpFile, RULES_FILE);
+}
+
+// Carregar regras do RULES_FILE (entradas inválidas são ignoradas)
+export function loadRules() {
+  const loaded = new Map<string, Rule>();
+  const now = new Date().toISOString();
+
+  if (fs.existsSync(RULES_FILE)) {
+    try {
+      const entries = JSON.parse(fs.readFileSync(RULES_FILE, 'utf-8'));
+      if (!Array.isArray(entries)) {
+        throw new Error('Rules file must contain a JSON array');
+      }
+
+      for (const entry of entries) {
+        const error = validateRuleInput(entry, false, false);
+        if (error) {
+          logger.warn({ entry: entry?.id, error }, '⚠️ Skipping invalid auto-reply rule');
+          continue;
+        }
+        const id = entry.id || crypto.randomUUID();
+        loaded.set(id, buildRule(entry, id, entry.updatedAt || now, entry.createdAt || now));
+      }
+    } catch (error) {
+      // Arquivo inválido (ex.: editado à mão com erro de sintaxe): manter as regras atuais
+      logger.error({ err: error, file: RULES_FILE }, '❌ Error loading rules file - keeping current rules');
+      return;
+    }
+  }
+
+  rules.clear();
+  loaded.forEach((rule, id) => rules.set(id, rule));
+  logger.info({ rules: rules.size }, 'Auto-reply rules loaded');
+}
+
+// Recarregar as regras quando o arquivo for alterado fora da API
+export function watchRulesFile() {
+  fs.watchFile(RULES_FILE, { interval: 2000 }, (current, previous) => {
+    if (current.mtimeMs !== previous.mtimeMs) {
+      logger.info({ file: RULES_FILE }, '🔄 Rules file changed, reloading');
+      loadRules();
+    }
+  });
+}
+
+// Regras em ordem de avaliação
+export function listRules(): Rule[] {
+  return Array.from(rules.values()).sort((a, b) => a.priority - b.priority || a.createdAt.localeCompare(b.createdAt));
+}
+
+export function getRule(id: string): Rule | null {
+  return rules.get(id) || null;
+}
+
+export function createRule(input: RuleInput): Rule {
+  const rule = buildRule(input, crypto.randomUUID(), new Date().toISOString());
+  rules.set(rule.id, rule);
+  saveRulesFile();
+  logger.info({ ruleId: rule.id, name: rule.name }, 'Auto-reply rule created');
+  return rule;
+}
+
+export function updateRule(rule: Rule, input: RuleInput): Rule {
+  const updated: Rule = {
+    ...rule,
+    ...Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined)),
+    updatedAt: new Date().toISOString(),
+  };
+
+  rules.set(updated.id, updated);
+  saveRulesFile();
+  logger.info({ ruleId: updated.id }, 'Auto-reply rule updated');
+  return updated;
+}
+
+export function deleteRule(rule: Rule) {
+  rules.delete(rule.id);
+  saveRulesFile();
+  logger.info({ ruleId: rule.id }, 'Auto-reply rule deleted');
+}
+
+function matchesCriteria(rule: Rule, context: InboundContext): boolean {
+  const { keywords, regex, messageTypes, chatType = 'any' } = rule.match;
+
+  if (chatType !== 'any' && (chatType === 'group') !== context.isGroup) {
+    return false;
+  }
+  if (messageTypes && messageTypes.length > 0 && !messageTypes.map(type => type.toUpperCase()).includes(context.messageType)) {
+    return false;
+  }
+  if (keywords && keywords.length > 0) {
+    // Palavra ou frase inteira ("oi" não casa com "noite")
+    const text = normalizeText(context.text);
+    const found = keywords.some(keyword => new RegExp(`(^|[^a-z0-9])${escapeRegex(normalizeText(keyword.trim()))}($|[^a-z0-9])`).test(text));
+    if (!found) {
+      return false;
+    }
+  }
+  if (regex && !new RegExp(regex, 'i').test(context.text)) {
+    return false;
+  }
+  return true;
+}
+
+function matchesConditions(rule: Rule, context: InboundContext, session: WhatsAppSession, messageId: string): boolean {
+  const { businessHours, firstContact } = rule.conditions || {};
+
+  if (businessHours && (businessHours === 'inside') !== isWithinBusinessHours()) {
+    return false;
+  }
+  // Primeiro contato = nenhuma outra mensagem deste chat no histórico local
+  if (firstContact !== undefined && firstContact === hasEarlierMessages(session.id, context.chatJid, messageId)) {
+    return false;
+  }
+  return true;
+}
+
+// Regras que casam com a mensagem recebida (respeitando prioridade, stopOnMatch e cooldown)
+export function matchInboundRules(session: WhatsAppSession, messageId: string, context: InboundContext): Rule[] {
+  const matched: Rule[] = [];
+  const now = Date.now();
+
+  for (const rule of listRules()) {
+    if (!rule.enabled || (rule.sessionIds && rule.sessionIds.length > 0 && !rule.sessionIds.includes(session.id))) {
+      continue;
+    }
+    if (!matchesCriteria(rule, context) || !matchesConditions(rule, context, session, messageId)) {
+      continue;
+    }
+
+    const cooldownKey = `${session.id}:${rule.id}:${context.chatJid}`;
+    const last = lastFiredAt.get(cooldownKey);
+    if (rule.cooldownSeconds && last !== undefined && now - last < rule.cooldownSeconds * 1000) {
+      continue;
+    }
+    lastFiredAt.set(cooldownKey, now);
+
+    matched.push(rule);
+    if (rule.stopOnMatch) {
+      break;
+    }
+  }
+
+  return matched;
+}
+
+// Tags das regras (ação "tag") para o payload do CRM
+export function getRuleTags(matched: Rule[]): string[] {
+  const tags = matched.flatMap(rule => rule.actions.flatMap(action => action.type === 'tag' ? action.tags : []));
+  return Array.from(new Set(tags));
+}
+
+// Executar as ações de resposta, reação e leitura das regras que casaram
+export async function runRuleActions(session: WhatsAppSession, message: proto.IWebMessageInfo, matched: Rule[], context: InboundContext) {
+  const key = message.key!;
+  const variables: TemplateVariables = {
+    name: context.contactName || '',
+    phone: context.chatJid.split('@')[0],
+    message: context.text,
+  };
+
+  for (const rule of matched) {
+    for (const action of rule.actions) {
+      try {
+        const socket = session.socket;
+        if (action.type === 'reply') {
+          await sendWhatsAppMessage(session, {
+            phone: context.chatJid,
+            message: action.message ? renderPlaceholders(action.message, variables) : undefined,
+            mediaUrl: action.mediaUrl,
+            mediaType: action.mediaType,
+            templateId: action.templateId,
+            variables: action.templateId ? { ...variables, ...action.variables } : undefined,
+            replyToId: action.quote ? key.id || undefined : undefined,
+            // Resposta a uma mensagem do próprio contato
+            transactional: true,
+          }, undefined, { waitForSlot: true });
+        } else if (action.type === 'react' && socket) {
+          await socket.sendMessage(context.chatJid, { react: { text: action.emoji, key } });
+        } else if (action.type === 'markRead' && socket) {
+          await socket.readMessages([key]);
+        }
+      } catch (error) {
+        session.logger.error({ err: error, ruleId: rule.id, action: action.type }, '❌ Error running auto-reply rule action');
+      }
+    }
+    session.logger.info({ ruleId: rule.id, name: rule.name, chatJid: context.chatJid }, '🤖 Auto-reply rule fired');
+  }
+}
@@ -0,0 +1,306 @@
+import { randomUUID } from 'crypto';
+import { db } from './db.js';
+import { logger } from './logger.js';
+import { DEFAULT_TIMEZONE } from './config.js';
+import { publishEvent, onStreamEvent } from './events.js';
+import { getSession } from './sessions.js';
+import { sendWhatsAppMessage, SendMessageError, SendMessageInput } from './send.js';
+
+// Mensagens agendadas: gravadas no banco para sobreviver a reinícios. Mensagens vencidas
+// enquanto a sessão está desconectada ficam na fila e saem quando a conexão abre.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS scheduled_messages (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    body TEXT NOT NULL,
+    send_at INTEGER NOT NULL,
+    timezone TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'scheduled',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    message_id TEXT,
+    last_error TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    sent_at INTEGER
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_scheduled_messages_due ON scheduled_messages (status, send_at);
+  CREATE INDEX IF NOT EXISTS idx_scheduled_messages_session ON scheduled_messages (session_id, status, send_at);
+`);
+
+export const SCHEDULED_MESSAGE_STATUSES = ['scheduled', 'sending', 'sent', 'failed', 'cancelled'] as const;
+
+export type ScheduledMessageStatus = typeof SCHEDULED_MESSAGE_STATUSES[number];
+
+interface ScheduledMessageRow {
+  id: string;
+  session_id: string;
+  body: string;
+  send_at: number;
+  timezone: string;
+  status: ScheduledMessageStatus;
+  attempts: number;
+  message_id: string | null;
+  last_error: string | null;
+  created_at: number;
+  updated_at: number;
+  sent_at: number | null;
+}
+
+const SCHEDULER_INTERVAL_MS = 5000;
+const SCHEDULER_BATCH_SIZE = 20;
+// Falhas transitórias (timeout do socket, erro de upload) são retentadas com atraso crescente
+const MAX_SEND_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 60_000;
+
+let schedulerInterval: NodeJS.Timeout | null = null;
+let schedulerRunning = false;
+let stopListening: (() => void) | null = null;
+
+function formatScheduledMessage(row: ScheduledMessageRow) {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    status: row.status,
+    sendAt: new Date(row.send_at).toISOString(),
+    timezone: row.timezone,
+    attempts: row.attempts,
+    messageId: row.message_id || undefined,
+    lastError: row.last_error || undefined,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+    sentAt: row.sent_at ? new Date(row.sent_at).toISOString() : undefined,
+    message: JSON.parse(row.body) as SendMessageInput,
+  };
+}
+
+export type ScheduledMessage = ReturnType<typeof formatScheduledMessage>;
+
+function getRow(sessionId: string, id: string): ScheduledMessageRow | undefined {
+  return db
+    .prepare('SELECT * FROM scheduled_messages WHERE session_id = ? AND id = ?')
+    .get(sessionId, id) as ScheduledMessageRow | undefined;
+}
+
+// Agendar envio (body no mesmo formato de POST /send-message)
+export function createScheduledMessage(sessionId: string, body: SendMessageInput, sendAt: Date, timezone: string = DEFAULT_TIMEZONE): ScheduledMessage {
+  const now = Date.now();
+  const row: ScheduledMessageRow = {
+    id: randomUUID(),
+    session_id: sessionId,
+    body: JSON.stringify(body),
+    send_at: sendAt.getTime(),
+    timezone,
+    status: 'scheduled',
+    attempts: 0,
+    message_id: null,
+    last_error: null,
+    created_at: now,
+    updated_at: now,
+    sent_at: null,
+  };
+
+  db.prepare(`
+    INSERT INTO scheduled_messages (id, session_id, body, send_at, timezone, status, attempts, created_at, updated_at)
+    VALUES (@id, @session_id, @body, @send_at, @timezone, @status, @attempts, @created_at, @updated_at)
+  `).run(row);
+
+  logger.info({ sessionId, scheduledMessageId: row.id, sendAt: sendAt.toISOString() }, '⏰ Message scheduled');
+  return formatScheduledMessage(row);
+}
+
+export function getScheduledMessage(sessionId: string, id: string): ScheduledMessage | null {
+  const row = getRow(sessionId, id);
+  return row ? formatScheduledMessage(row) : null;
+}
+
+// Listar agendamentos da sessão (opcionalmente por status), do mais próximo ao mais distante
+export function listScheduledMessages(sessionId: string, options: { status?: ScheduledMessageStatus; limit: number; offset: number }) {
+  const { status, limit, offset } = options;
+
+  const rows = db.prepare(`
+    SELECT * FROM scheduled_messages
+    WHERE session_id = @sessionId AND (@status IS NULL OR status = @status)
+    ORDER BY send_at, created_at
+    LIMIT @limit OFFSET @offset
+  `).all({ sessionId, status: status || null, limit, offset }) as ScheduledMessageRow[];
+
+  const { total } = db.prepare(`
+    SELECT COUNT(*) AS total FROM scheduled_messages
+    WHERE session_id = @sessionId AND (@status IS NULL OR status = @status)
+  `).get({ sessionId, status: status || null }) as { total: number };
+
+  return { scheduledMessages: rows.map(formatScheduledMessage), total };
+}
+
+// Reagendar (e opcionalmente alterar o conteúdo). Agendamentos que falharam voltam para a fila.
+// Retorna null se o agendamento não existe ou já foi enviado/cancelado.
+export function rescheduleMessage(sessionId: string, id: string, changes: { sendAt?: Date; timezone?: string; body?: SendMessageInput }): ScheduledMessage | null {
+  const row = getRow(sessionId, id);
+  if (!row || (row.status !== 'scheduled' && row.status !== 'failed')) {
+    return null;
+  }
+
+  const result = db.prepare(`
+    UPDATE scheduled_messages
+    SET send_at = @sendAt, timezone = @timezone, body = @body, status = 'scheduled', attempts = 0, last_error = NULL, updated_at = @now
+    WHERE id = @id AND status IN ('scheduled', 'failed')
+  `).run({
+    id,
+    sendAt: changes.sendAt ? changes.sendAt.getTime() : row.send_at,
+    timezone: changes.timezone || row.timezone,
+    body: changes.body ? JSON.stringify(changes.body) : row.body,
+    now: Date.now(),
+  });
+
+  if (result.changes === 0) {
+    return null;
+  }
+  logger.info({ sessionId, scheduledMessageId: id }, '⏰ Scheduled message updated');
+  return getScheduledMessage(sessionId, id);
+}
+
+// Cancelar agendamento pendente (false se não existe ou não está mais agendado)
+export function cancelScheduledMessage(sessionId: string, id: string): boolean {
+  const result = db.prepare(`
+    UPDATE scheduled_messages SET status = 'cancelled', updated_at = ?
+    WHERE session_id = ? AND id = ? AND status = 'scheduled'
+  `).run(Date.now(), sessionId, id);
+
+  if (result.changes > 0) {
+    logger.info({ sessionId, scheduledMessageId: id }, '🚫 Scheduled message cancelled');
+  }
+  return result.changes > 0;
+}
+
+// Apagar agendamentos de uma sessão
+export function deleteSessionScheduledMessages(sessionId: string) {
+  db.prepare('DELETE FROM scheduled_messages WHERE session_id = ?').run(sessionId);
+}
+
+async function sendScheduledMessage(row: ScheduledMessageRow) {
+  const session = getSession(row.session_id);
+  if (!session) {
+    return;
+  }
+
+  // Marcar como "sending" antes do envio; se o servidor cair no meio, não reenviamos às cegas
+  const claimed = db.prepare(`
+    UPDATE scheduled_messages SET status = 'sending', attempts = attempts + 1, updated_at = ? WHERE id = ? AND status = 'scheduled'
+  `).run(Date.now(), row.id);
+  if (claimed.changes === 0) {
+    return;
+  }
+
+  const attempts = row.attempts + 1;
+  try {
+    const { messageId } = await sendWhatsAppMessage(session, JSON.parse(row.body) as SendMessageInput, undefined, { waitForSlot: true });
+
+    const sentAt = Date.now();
+    db.prepare(`
+      UPDATE scheduled_messages SET status = 'sent', message_id = ?, last_error = NULL, sent_at = ?, updated_at = ? WHERE id = ?
+    `).run(messageId, sentAt, sentAt, row.id);
+
+    publishEvent(row.session_id, 'scheduled_message.sent', {
+      scheduledMessageId: row.id,
+      messageId,
+      sendAt: new Date(row.send_at).toISOString(),
+      timestamp: new Date(sentAt).toISOString(),
+    });
+    session.logger.info({ scheduledMessageId: row.id, messageId }, '✅ Scheduled message sent');
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const failedAt = Date.now();
+
+    // Conexão caiu entre a seleção e o envio: volta para a fila sem contar tentativa
+    if (session.connectionStatus !== 'connected') {
+      db.prepare(`
+        UPDATE scheduled_messages SET status = 'scheduled', attempts = attempts - 1, updated_at = ? WHERE id = ?
+      `).run(failedAt, row.id);
+      return;
+    }
+
+    // Erros de validação (mensagem citada não encontrada, arquivo grande, ...) não adianta retentar
+    if (!(error instanceof SendMessageError) && attempts < MAX_SEND_ATTEMPTS) {
+      db.prepare(`
+        UPDATE scheduled_messages SET status = 'scheduled', send_at = ?, last_error = ?, updated_at = ? WHERE id = ?
+      `).run(failedAt + RETRY_DELAY_MS * attempts, errorMessage, failedAt, row.id);
+      session.logger.warn({ scheduledMessageId: row.id, attempts, error: errorMessage }, '⚠️ Scheduled message failed - will retry');
+      return;
+    }
+
+    db.prepare(`
+      UPDATE scheduled_messages SET status = 'failed', last_error = ?, updated_at = ? WHERE id = ?
+    `).run(errorMessage, failedAt, row.id);
+
+    publishEvent(row.session_id, 'scheduled_message.failed', {
+      scheduledMessageId: row.id,
+      sendAt: new Date(row.send_at).toISOString(),
+      attempts,
+      error: errorMessage,
+      timestamp: new Date(failedAt).toISOString(),
+    });
+    session.logger.error({ scheduledMessageId: row.id, attempts, error: errorMessage }, '❌ Scheduled message failed');
+  }
+}
+
+// Enviar agendamentos vencidos das sessões conectadas (os demais esperam a reconexão)
+export async function processScheduledMessages() {
+  if (schedulerRunning) {
+    return;
+  }
+  schedulerRunning = true;
+
+  try {
+    const due = db.prepare(`
+      SELECT * FROM scheduled_messages WHERE status = 'scheduled' AND send_at <= ? ORDER BY send_at, created_at
+    `).all(Date.now()) as ScheduledMessageRow[];
+
+    const ready = due
+      .filter(row => getSession(row.session_id)?.connectionStatus === 'connected')
+      .slice(0, SCHEDULER_BATCH_SIZE);
+
+    // Em sequência, para manter a ordem dos envios
+    for (const row of ready) {
+      await sendScheduledMessage(row);
+    }
+  } finally {
+    schedulerRunning = false;
+  }
+}
+
+export function startScheduler() {
+  if (schedulerInterval) {
+    clearInterval(schedulerInterval);
+  }
+  stopListening?.();
+
+  // Envios interrompidos por um reinício: o resultado é desconhecido, então não reenviamos
+  const interrupted = db.prepare(`
+    UPDATE scheduled_messages SET status = 'failed', last_error = 'Interrupted while sending (server restarted)', updated_at = ?
+    WHERE status = 'sending'
+  `).run(Date.now());
+  if (interrupted.changes > 0) {
+    logger.warn({ interrupted: interrupted.changes }, '⚠️ Scheduled messages interrupted by restart marked as failed');
+  }
+
+  const run = () => {
+    processScheduledMessages().catch(err => {
+      logger.error({ err }, 'Error processing scheduled messages');
+    });
+  };
+
+  schedulerInterval = setInterval(run, SCHEDULER_INTERVAL_MS);
+
+  // Ao reconectar, enviar imediatamente o que venceu enquanto a sessão estava offline
+  stopListening = onStreamEvent(({ event }) => {
+    if (event === 'connection.open') {
+      setImmediate(run);
+    }
+  });
+
+  const { pending } = db
+    .prepare(`SELECT COUNT(*) AS pending FROM scheduled_messages WHERE status = 'scheduled'`)
+    .get() as { pending: number };
+  logger.info({ pending }, 'Message scheduler started');
+}
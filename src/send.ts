@@ -0,0 +1,483 @@
+import fs from 'fs';
+import { Readable } from 'stream';
+import { generateMessageIDV2, MiscMessageGenerationOptions, WAMessage, proto } from '@whiskeysockets/baileys';
+import { logger } from './logger.js';
+import { saveMessages } from './store.js';
+import { detectMediaType, getUploadSizeError } from './uploads.js';
+import { reserveSendSlot, simulateTyping } from './throttle.js';
+import { getMissingTemplateVariables, renderTemplate } from './templates.js';
+import { validateVariables, TemplateVariables } from './placeholders.js';
+import { isOptedOut, toConsentJid } from './consent.js';
+import { WhatsAppSession, findMessage, getContactJids, getMessageFromCache, trackSentMessageId } from './sessions.js';
+
+// Corpo de POST /send-message (também usado por envios agendados e pela fila de saída)
+export interface SendMessageInput {
+  phone: string;
+  message?: string;
+  mediaUrl?: string;
+  mediaData?: string;      // Base64 data URL (data:image/png;base64,...)
+  mediaType?: string;      // 'image' | 'video' | 'audio' | 'document' | 'sticker'
+  mediaMimetype?: string;  // 'image/png', 'video/mp4', etc.
+  mediaFilename?: string;  // Nome do arquivo (para documentos)
+  replyToId?: string;      // ID da mensagem para responder
+  mentions?: string[];     // Array de números/JIDs para mencionar
+  forwardMessageId?: string; // ID da mensagem para encaminhar
+  forwardChatId?: string;    // ChatId da mensagem para encaminhar
+  latitude?: number;         // Latitude para localização
+  longitude?: number;        // Longitude para localização
+  contact?: { displayName: string; vcard: string }; // Contato (vCard)
+  viewOnce?: boolean;        // true para mensagem de visualização única
+  poll?: { name: string; values: string[]; selectableCount?: number; toAnnouncementGroup?: boolean };
+  simulateTyping?: boolean;  // "digitando..." antes do envio (padrão SEND_TYPING_SIMULATION)
+  templateId?: string;       // Modelo salvo (substitui message/mídia)
+  variables?: TemplateVariables; // Variáveis do modelo ({{nome}})
+  transactional?: boolean;   // Mensagem transacional (pedido, cobrança): enviada mesmo a contatos com opt-out
+}
+
+// Arquivo enviado via multipart/form-data (gravado em disco pelo multer)
+export interface SendMessageFile {
+  path: string;
+  size: number;
+  mimetype: string;
+  originalname: string;
+}
+
+// Erro de envio com o status HTTP correspondente (403 contato com opt-out, 404 mensagem citada não encontrada,
+// 413 arquivo grande, 429 limite de envio - com retryAfterSeconds para o header Retry-After)
+export class SendMessageError extends Error {
+  constructor(message: string, readonly statusCode: number = 400, readonly retryAfterSeconds?: number, readonly code?: string) {
+    super(message);
+    this.name = 'SendMessageError';
+  }
+}
+
+// Contato descadastrado (LGPD): apenas mensagens transacionais são permitidas.
+// Consulta também o JID alternativo do contato (chatId @lid <-> número), com o qual o opt-out pode ter sido registrado
+export async function getConsentError(
+  session: WhatsAppSession,
+  input: Pick<SendMessageInput, 'phone' | 'transactional'>,
+): Promise<SendMessageError | null> {
+  if (input.transactional === true) {
+    return null;
+  }
+  const jids = await getContactJids(session, toConsentJid(input.phone));
+  if (!jids.some(jid => isOptedOut(jid))) {
+    return null;
+  }
+  return new SendMessageError(
+    'Contact has opted out of receiving messages (use transactional: true for transactional messages)',
+    403,
+    undefined,
+    'CONTACT_OPTED_OUT',
+  );
+}
+
+// Função auxiliar para processar base64 data URL
+export function processBase64Data(dataUrl: string): { buffer: Buffer; mimetype: string } | null {
+  try {
+    // Formato: data:image/png;base64,iVBORw0KGgo...
+    const matches = dataUrl.match(/^data:([^;]+);base64,(.+)$/);
+    if (!matches) {
+      return null;
+    }
+    
+    const mimetype = matches[1];
+    const base64Data = matches[2];
+    const buffer = Buffer.from(base64Data, 'base64');
+    
+    return { buffer, mimetype };
+  } catch (error) {
+    logger.error({ err: error }, 'Error processing base64 data');
+    return null;
+  }
+}
+
+// Validar enquete: { name, values: string[], selectableCount?: number } (retorna mensagem de erro ou null)
+function validatePoll(poll: any): string | null {
+  if (!poll || typeof poll.name !== 'string' || !poll.name.trim()) {
+    return 'poll.name is required';
+  }
+  if (!Array.isArray(poll.values) || poll.values.some((value: unknown) => typeof value !== 'string' || !value.trim())) {
+    return 'poll.values must be an array of non-empty strings';
+  }
+  if (poll.values.length < 2 || poll.values.length > 12) {
+    return 'poll.values must have between 2 and 12 options';
+  }
+  if (new Set(poll.values.map((value: string) => value.trim())).size !== poll.values.length) {
+    return 'poll.values must not contain duplicate options';
+  }
+  if (poll.selectableCount !== undefined
+    && (!Number.isInteger(poll.selectableCount) || poll.selectableCount < 0 || poll.selectableCount > poll.values.length)) {
+    return 'poll.selectableCount must be an integer between 0 (any number) and the number of options';
+  }
+  return null;
+}
+
+// Preencher conteúdo de mídia da mensagem (URL remota ou stream de upload)
+function setMediaContent(
+  messageOptions: any,
+  mediaType: string,
+  media: { url: string } | { stream: Readable },
+  mimetype: string,
+  caption?: string,
+  fileName?: string,
+) {
+  switch (mediaType) {
+    case 'image':
+      messageOptions.image = media;
+      if (caption) messageOptions.caption = caption;
+      break;
+
+    case 'video':
+      messageOptions.video = media;
+      messageOptions.mimetype = mimetype;
+      if (caption) messageOptions.caption = caption;
+      break;
+
+    case 'audio':
+      messageOptions.audio = media;
+      messageOptions.mimetype = mimetype;
+      messageOptions.ptt = mimetype.includes('ogg') || mimetype.includes('opus'); // Voice note
+      break;
+
+    case 'sticker':
+      messageOptions.sticker = media;
+      // Sticker não tem caption
+      delete messageOptions.caption;
+      break;
+
+    case 'document':
+    default:
+      messageOptions.document = media;
+      messageOptions.mimetype = mimetype;
+      messageOptions.fileName = fileName || 'document';
+      if (caption) messageOptions.caption = caption;
+      break;
+  }
+}
+
+// Validar corpo antes de enviar ou agendar (retorna mensagem de erro ou null)
+export function validateSendMessageInput(input: Partial<SendMessageInput>, hasFile = false): string | null {
+  const { phone, message, mediaUrl, mediaData, latitude, contact, poll, templateId } = input;
+
+  // Modelo: o conteúdo vem do modelo salvo; variáveis faltando são recusadas aqui
+  if (templateId !== undefined) {
+    if (!phone || typeof phone !== 'string') {
+      return 'Phone is required';
+    }
+    if (typeof templateId !== 'string') {
+      return 'templateId must be a string';
+    }
+    if (message || mediaUrl || mediaData || hasFile || latitude !== undefined || contact || poll) {
+      return 'templateId cannot be combined with message, media, location, contact or poll';
+    }
+    const variablesError = validateVariables(input.variables);
+    if (variablesError) {
+      return variablesError;
+    }
+    const missing = getMissingTemplateVariables(templateId, input.variables);
+    if (!missing) {
+      return `Template ${templateId} not found`;
+    }
+    if (missing.length > 0) {
+      return `Missing template variables: ${missing.join(', ')}`;
+    }
+    return null;
+  }
+
+  // Validar que há conteúdo para enviar
+  const hasContent = message || mediaUrl || mediaData || hasFile || latitude !== undefined || contact || poll;
+  if (!phone || typeof phone !== 'string' || !hasContent) {
+    return 'Phone and message/mediaUrl/mediaData/file/location/contact/poll are required';
+  }
+
+  if (poll) {
+    return validatePoll(poll);
+  }
+  return null;
+}
+
+// Validar a mídia (formato do base64 e limite por tipo) antes de reservar o limite de envio ou enfileirar;
+// retorna o base64 decodificado para não decodificar de novo no envio
+function prepareMedia(input: SendMessageInput, uploadedFile?: SendMessageFile): { buffer: Buffer; mimetype: string } | null {
+  if (uploadedFile) {
+    const mimetype = input.mediaMimetype || uploadedFile.mimetype || 'application/octet-stream';
+    const sizeError = getUploadSizeError(input.mediaType || detectMediaType(mimetype), uploadedFile.size);
+    if (sizeError) {
+      throw new SendMessageError(sizeError, 413);
+    }
+    return null;
+  }
+
+  if (input.mediaData) {
+    const processed = processBase64Data(input.mediaData);
+    if (!processed) {
+      throw new SendMessageError('Invalid base64 data URL format. Expected: data:mimetype;base64,data');
+    }
+    const sizeError = getUploadSizeError(input.mediaType || detectMediaType(processed.mimetype), processed.buffer.length);
+    if (sizeError) {
+      throw new SendMessageError(sizeError, 413);
+    }
+    return processed;
+  }
+
+  return null;
+}
+
+// Erro de mídia (400/413) de um envio, sem enviar (ex.: antes de colocar na fila de saída)
+export function getSendMediaError(input: SendMessageInput, uploadedFile?: SendMessageFile): SendMessageError | null {
+  try {
+    prepareMedia(input, uploadedFile);
+    return null;
+  } catch (error) {
+    if (error instanceof SendMessageError) {
+      return error;
+    }
+    throw error;
+  }
+}
+
+// Enviar mensagem pela sessão; retorna o ID da mensagem enviada.
+// waitForSlot: aguardar o limite de envio em vez de falhar com 429 (envios em segundo plano)
+export async function sendWhatsAppMessage(
+  session: WhatsAppSession,
+  input: SendMessageInput,
+  uploadedFile?: SendMessageFile,
+  options: { waitForSlot?: boolean } = {},
+): Promise<{ messageId: string }> {
+  const consentError = await getConsentError(session, input);
+  if (consentError) {
+    throw consentError;
+  }
+
+  if (session.connectionStatus !== 'connected' || !session.socket) {
+    throw new SendMessageError('WhatsApp is not connected');
+  }
+
+  // Modelo salvo: aplicar variáveis e usar texto/mídia do modelo
+  if (input.templateId) {
+    const missing = getMissingTemplateVariables(input.templateId, input.variables);
+    if (!missing) {
+      throw new SendMessageError(`Template ${input.templateId} not found`, 404);
+    }
+    if (missing.length > 0) {
+      throw new SendMessageError(`Missing template variables: ${missing.join(', ')}`);
+    }
+    const rendered = renderTemplate(input.templateId, input.variables)!;
+    input = { ...input, ...rendered.content };
+    uploadedFile = rendered.file;
+  }
+
+  const {
+    phone,
+    message,
+    mediaUrl,
+    mediaType,
+    mediaMimetype,
+    mediaFilename,
+    replyToId,
+    mentions,
+    forwardMessageId,
+    forwardChatId,
+    latitude,
+    longitude,
+    contact,
+    viewOnce,
+    poll,
+    simulateTyping: typing,
+  } = input;
+
+  // Baileys v7.0.0: Formato JID pode ser LID ou PN
+  let jid = `${phone}@s.whatsapp.net`;
+
+  // Se o número já contém @, usar diretamente
+  if (phone.includes('@')) {
+    jid = phone;
+  }
+
+  // Preparar opções de mensagem
+  const messageOptions: any = {
+    caption: message || undefined,
+  };
+
+  // Adicionar reply/quote se fornecido (mensagem original real: autor, participante e conteúdo)
+  let quoted: proto.IWebMessageInfo | undefined;
+  if (replyToId) {
+    quoted = await findMessage(session, jid, replyToId) || undefined;
+    if (!quoted) {
+      throw new SendMessageError('Message to reply (replyToId) not found. Only messages received or sent while the server was connected can be quoted', 404);
+    }
+  }
+
+  // Adicionar mentions se fornecido
+  if (mentions && Array.isArray(mentions) && mentions.length > 0) {
+    const mentionJids = mentions.map((phoneOrJid: string) => {
+      if (phoneOrJid.includes('@')) {
+        // Já é um JID completo
+        return phoneOrJid;
+      }
+      // Converter número para JID
+      return `${phoneOrJid}@s.whatsapp.net`;
+    });
+    messageOptions.mentions = mentionJids;
+  }
+
+  // Adicionar forward se fornecido
+  if (forwardMessageId && forwardChatId) {
+    const originalMessage = getMessageFromCache(session, forwardChatId, forwardMessageId);
+    if (originalMessage) {
+      messageOptions.forward = originalMessage;
+      logger.info({ forwardMessageId, forwardChatId }, 'Forward message found in cache');
+    } else {
+      logger.warn({ forwardMessageId, forwardChatId }, 'Forward message not found in cache');
+      throw new SendMessageError('Message to forward not found. Message must be received first.', 404);
+    }
+  }
+
+  // Adicionar location se fornecido
+  if (latitude !== undefined && longitude !== undefined) {
+    messageOptions.location = {
+      degreesLatitude: latitude,
+      degreesLongitude: longitude,
+    };
+    // Location não precisa de texto ou mídia
+  }
+
+  // Adicionar contact se fornecido
+  if (contact && contact.displayName && contact.vcard) {
+    messageOptions.contacts = {
+      displayName: contact.displayName,
+      contacts: [{ vcard: contact.vcard }],
+    };
+    // Contact não precisa de texto ou mídia
+  }
+
+  // Adicionar poll (enquete) se fornecido
+  if (poll) {
+    const pollError = validatePoll(poll);
+    if (pollError) {
+      throw new SendMessageError(pollError);
+    }
+    messageOptions.poll = {
+      name: poll.name.trim(),
+      values: poll.values.map((value: string) => value.trim()),
+      selectableCount: poll.selectableCount ?? 1,
+      toAnnouncementGroup: poll.toAnnouncementGroup === true,
+    };
+  }
+
+  // Adicionar viewOnce se fornecido
+  if (viewOnce === true) {
+    messageOptions.viewOnce = true;
+  }
+
+  // Mídia inválida ou grande demais não consome o limite de envio nem mostra "digitando..."
+  const decodedMedia = prepareMedia(input, uploadedFile);
+
+  // Limite de envio: aguardar o horário reservado (ou 429 se a espera passar do permitido)
+  const slot = reserveSendSlot(session.id, jid, options.waitForSlot);
+  if (!slot.allowed) {
+    const retryAfterSeconds = Math.ceil(slot.retryAfterMs / 1000);
+    throw new SendMessageError(`Send rate limit exceeded, retry in ${retryAfterSeconds}s`, 429, retryAfterSeconds);
+  }
+  if (slot.waitMs > 0) {
+    session.logger.debug({ jid, waitMs: slot.waitMs }, 'Send throttled');
+    await new Promise(resolve => setTimeout(resolve, slot.waitMs));
+  }
+  await simulateTyping(session, jid, message, typing);
+
+  // A conexão pode ter caído durante a espera
+  const socket = session.socket;
+  if (session.connectionStatus !== 'connected' || !socket) {
+    throw new SendMessageError('WhatsApp is not connected');
+  }
+
+  // ID gerado antes do envio para que o eco em messages.upsert não seja tratado como mensagem do celular
+  const messageId = generateMessageIDV2(socket.user?.id);
+  trackSentMessageId(session, messageId);
+  const sendOptions: MiscMessageGenerationOptions = { messageId, quoted: quoted as WAMessage | undefined };
+
+  let response: any;
+
+  // Processar mídia
+  if (uploadedFile) {
+    // Upload multipart: arquivo lido do disco em stream pelo Baileys
+    const mimetype = mediaMimetype || uploadedFile.mimetype || 'application/octet-stream';
+    const detectedType = mediaType || detectMediaType(mimetype);
+
+    setMediaContent(messageOptions, detectedType, { stream: fs.createReadStream(uploadedFile.path) }, mimetype, message, mediaFilename || uploadedFile.originalname);
+    response = await socket.sendMessage(jid, messageOptions, sendOptions);
+  } else if (decodedMedia) {
+    // Base64 data URL (data:image/png;base64,...), decodificado em prepareMedia
+    const { buffer, mimetype } = decodedMedia;
+    const detectedType = mediaType || detectMediaType(mimetype);
+
+    switch (detectedType) {
+      case 'image':
+        messageOptions.image = buffer;
+        if (message) messageOptions.caption = message;
+        break;
+      
+      case 'video':
+        messageOptions.video = buffer;
+        messageOptions.mimetype = mimetype;
+        if (message) messageOptions.caption = message;
+        break;
+      
+      case 'audio':
+        messageOptions.audio = buffer;
+        messageOptions.mimetype = mimetype;
+        messageOptions.ptt = mimetype.includes('ogg') || mimetype.includes('opus'); // Voice note
+        break;
+      
+      case 'sticker':
+        messageOptions.sticker = buffer;
+        // Sticker não tem caption
+        delete messageOptions.caption;
+        break;
+      
+      case 'document':
+      default:
+        messageOptions.document = buffer;
+        messageOptions.mimetype = mimetype;
+        messageOptions.fileName = mediaFilename || 'document';
+        if (message) messageOptions.caption = message;
+        break;
+    }
+
+    response = await socket.sendMessage(jid, messageOptions, sendOptions);
+  } else if (mediaUrl) {
+    // URL de mídia
+    const detectedType = mediaType || 'image';
+    const mimetype = mediaMimetype || 'image/jpeg';
+
+    setMediaContent(messageOptions, detectedType, { url: mediaUrl }, mimetype, message, mediaFilename);
+    response = await socket.sendMessage(jid, messageOptions, sendOptions);
+  } else if (messageOptions.location) {
+    // Localização
+    response = await socket.sendMessage(jid, messageOptions, sendOptions);
+  } else if (messageOptions.contacts) {
+    // Contato (vCard)
+    response = await socket.sendMessage(jid, messageOptions, sendOptions);
+  } else if (messageOptions.poll) {
+    // Poll (Enquete)
+    response = await socket.sendMessage(jid, { poll: messageOptions.poll }, sendOptions);
+  } else {
+    // Apenas texto (pode ter mentions, viewOnce)
+    const textMessage: any = { text: message };
+    if (messageOptions.mentions) {
+      textMessage.mentions = messageOptions.mentions;
+    }
+    if (messageOptions.viewOnce) {
+      textMessage.viewOnce = true;
+    }
+    response = await socket.sendMessage(jid, textMessage, sendOptions);
+  }
+
+  // Salvar já no store (enquetes precisam da mensagem de criação para decifrar os votos)
+  if (response?.key) {
+    saveMessages(session.id, [response]);
+  }
+
+  return { messageId: response?.key?.id || 'unknown' };
+}
@@ -0,0 +1,745 @@
+import { makeWASocket, DisconnectReason, useMultiFileAuthState, jidNormalizedUser, WASocket, GroupMetadata, proto } from '@whiskeysockets/baileys';
+import { Boom } from '@hapi/boom';
+import pino from 'pino';
+import QRCode from 'qrcode';
+import { join } from 'path';
+import fs from 'fs';
+import { AUTH_DIR } from './config.js';
+import { logger } from './logger.js';
+import { processIncomingMessage, shouldIngestGroup } from './incoming.js';
+import { processMessageChange } from './message-changes.js';
+import { deleteSessionMedia } from './media.js';
+import { deleteSessionPollVotes } from './polls.js';
+import { deleteSessionScheduledMessages } from './scheduler.js';
+import { deleteSessionOutbox } from './outbox.js';
+import { deleteSessionCampaigns } from './campaigns.js';
+import { clearSendThrottle } from './throttle.js';
+import { deleteSessionAwayReplies } from './business-hours.js';
+import { publishEvent, emitStreamEvent } from './events.js';
+import { toJid, toCrmChatId } from './jid.js';
+import {
+  saveChats,
+  saveContacts,
+  saveMessages,
+  getStoredMessage,
+  getMessageSummary,
+  deleteSessionData,
+  updateMessageStatus,
+  saveMessageReceipt,
+  formatMessageStatus,
+} from './store.js';
+
+export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected';
+
+// Estado de uma sessão (um número de WhatsApp)
+export interface WhatsAppSession {
+  id: string;
+  authDir: string;
+  logger: pino.Logger;
+  socket: WASocket | null;
+  qrCode: string | null;
+  connectionStatus: ConnectionStatus;
+  phoneNumber: string | null;
+  keepAliveInterval: NodeJS.Timeout | null;
+  reconnectTimeout: NodeJS.Timeout | null;
+  // Cache de mensagens recebidas (para Download e Forward)
+  messageCache: Map<string, proto.IWebMessageInfo>;
+  // IDs das mensagens enviadas via /send-message (para não reenviá-las ao CRM como enviadas pelo celular)
+  sentMessageIds: Set<string>;
+  // Cache de metadados de grupos (assunto, participantes)
+  groupMetadataCache: Map<string, GroupMetadata>;
+}
+
+// Sessão usada pelas rotas sem prefixo /sessions/:sessionId
+export const DEFAULT_SESSION_ID = 'default';
+
+const SESSION_ID_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+const sessions = new Map<string, WhatsAppSession>();
+
+export function isValidSessionId(sessionId: string): boolean {
+  return SESSION_ID_PATTERN.test(sessionId);
+}
+
+// A sessão default usa o próprio AUTH_DIR (compatível com instalações antigas),
+// as demais usam um subdiretório com o nome da sessão
+function getSessionAuthDir(sessionId: string): string {
+  return sessionId === DEFAULT_SESSION_ID ? AUTH_DIR : join(AUTH_DIR, sessionId);
+}
+
+export function getSession(sessionId: string): WhatsAppSession | null {
+  return sessions.get(sessionId) || null;
+}
+
+export function listSessions(): WhatsAppSession[] {
+  return Array.from(sessions.values());
+}
+
+export function createSession(sessionId: string): WhatsAppSession {
+  const existing = sessions.get(sessionId);
+  if (existing) {
+    return existing;
+  }
+
+  const authDir = getSessionAuthDir(sessionId);
+  if (!fs.existsSync(authDir)) {
+    fs.mkdirSync(authDir, { recursive: true });
+  }
+
+  const session: WhatsAppSession = {
+    id: sessionId,
+    authDir,
+    logger: logger.child({ sessionId }),
+    socket: null,
+    qrCode: null,
+    connectionStatus: 'disconnected',
+    phoneNumber: null,
+    keepAliveInterval: null,
+    reconnectTimeout: null,
+    messageCache: new Map(),
+    sentMessageIds: new Set(),
+    groupMetadataCache: new Map(),
+  };
+  sessions.set(sessionId, session);
+
+  logger.info({ sessionId, authDir }, 'Session created');
+  return session;
+}
+
+// Encerrar socket e timers da sessão sem apagar credenciais
+export async function endSession(session: WhatsAppSession, logout = false) {
+  if (session.reconnectTimeout) {
+    clearTimeout(session.reconnectTimeout);
+    session.reconnectTimeout = null;
+  }
+  if (session.keepAliveInterval) {
+    clearInterval(session.keepAliveInterval);
+    session.keepAliveInterval = null;
+  }
+
+  if (session.socket) {
+    try {
+      if (logout && session.connectionStatus === 'connected') {
+        await session.socket.logout();
+      } else {
+        await session.socket.end(undefined);
+      }
+    } catch (error) {
+      session.logger.error({ err: error }, 'Error ending socket');
+    }
+    session.socket = null;
+  }
+
+  session.connectionStatus = 'disconnected';
+  session.qrCode = null;
+  session.phoneNumber = null;
+}
+
+// Remover sessão: desconecta (logout) e apaga o diretório de autenticação
+export async function deleteSession(session: WhatsAppSession) {
+  sessions.delete(session.id);
+  await endSession(session, true);
+
+  try {
+    fs.rmSync(session.authDir, { recursive: true, force: true });
+  } catch (error) {
+    session.logger.error({ err: error }, 'Error removing session auth directory');
+  }
+
+  session.messageCache.clear();
+  session.sentMessageIds.clear();
+  session.groupMetadataCache.clear();
+  deleteSessionData(session.id);
+  deleteSessionPollVotes(session.id);
+  deleteSessionScheduledMessages(session.id);
+  deleteSessionOutbox(session.id);
+  deleteSessionCampaigns(session.id);
+  clearSendThrottle(session.id);
+  deleteSessionAwayReplies(session.id);
+  await deleteSessionMedia(session.id);
+  publishEvent(session.id, 'session.cleared', {
+    reason: 'deleted',
+    timestamp: new Date().toISOString(),
+  });
+  logger.info({ sessionId: session.id }, 'Session deleted');
+}
+
+// Criar a sessão default e as sessões salvas em subdiretórios de AUTH_DIR
+export function loadSessions() {
+  createSession(DEFAULT_SESSION_ID);
+
+  for (const entry of fs.readdirSync(AUTH_DIR, { withFileTypes: true })) {
+    if (entry.isDirectory() && isValidSessionId(entry.name) && entry.name !== DEFAULT_SESSION_ID) {
+      createSession(entry.name);
+    }
+  }
+
+  logger.info({ sessions: Array.from(sessions.keys()) }, 'Sessions loaded');
+}
+
+// Função para gerar chave do cache
+export function getMessageCacheKey(remoteJid: string, messageId: string): string {
+  return `${remoteJid}:${messageId}`;
+}
+
+// Função para buscar mensagem do cache
+export function getMessageFromCache(session: WhatsAppSession, chatId: string, messageId: string): proto.IWebMessageInfo | null {
+  // Converter formato do CRM (@c.us) para formato do Baileys (@s.whatsapp.net)
+  let jid = chatId;
+  if (chatId.includes('@c.us')) {
+    jid = chatId.replace('@c.us', '@s.whatsapp.net');
+  } else if (!chatId.includes('@')) {
+    jid = `${chatId}@s.whatsapp.net`;
+  }
+  
+  const key = getMessageCacheKey(jid, messageId);
+  return session.messageCache.get(key) || null;
+}
+
+// JIDs do mesmo contato: o informado e o alternativo (número <-> LID) conforme o mapeamento da sessão
+export async function getContactJids(session: WhatsAppSession, jid: string): Promise<string[]> {
+  const lidMapping = session.socket?.signalRepository.lidMapping;
+  if (!lidMapping || (!jid.endsWith('@lid') && !jid.endsWith('@s.whatsapp.net'))) {
+    return [jid];
+  }
+
+  try {
+    const alternate = jid.endsWith('@lid') ? await lidMapping.getPNForLID(jid) : await lidMapping.getLIDForPN(jid);
+    if (alternate && jidNormalizedUser(alternate) !== jid) {
+      return [jid, jidNormalizedUser(alternate)];
+    }
+  } catch (error) {
+    session.logger.warn({ err: error, jid }, '⚠️ Could not resolve alternate JID');
+  }
+  return [jid];
+}
+
+// Buscar mensagem (para responder, editar ou apagar): cache em memória e depois o store local, no chat
+// informado ou no JID alternativo do mesmo contato (o chat pode estar salvo como número ou LID)
+export async function findMessage(session: WhatsAppSession, jid: string, messageId: string): Promise<proto.IWebMessageInfo | null> {
+  for (const chatJid of await getContactJids(session, toJid(jid))) {
+    const message = getMessageFromCache(session, chatJid, messageId) || getStoredMessage(session.id, chatJid, messageId);
+    if (message) {
+      return message;
+    }
+  }
+  return null;
+}
+
+// Registrar ID de mensagem enviada pela API
+export function trackSentMessageId(session: WhatsAppSession, messageId: string) {
+  session.sentMessageIds.add(messageId);
+
+  // Limitar a 1000 IDs (remover mais antigos)
+  if (session.sentMessageIds.size > 1000) {
+    const firstId = session.sentMessageIds.values().next().value;
+    if (firstId) {
+      session.sentMessageIds.delete(firstId);
+    }
+  }
+}
+
+// Função para iniciar conexão
+export async function startConnection(session: WhatsAppSession) {
+  if (session.socket && session.connectionStatus === 'connected') {
+    session.logger.info('Already connected');
+    return;
+  }
+
+  if (session.connectionStatus === 'connecting') {
+    session.logger.info('Connection already in progress');
+    return;
+  }
+
+  session.connectionStatus = 'connecting';
+  session.qrCode = null;
+
+  try {
+    const { state, saveCreds } = await useMultiFileAuthState(session.authDir);
+    
+    const socket = makeWASocket({
+      auth: state,
+      printQRInTerminal: false,
+      logger: pino({ level: 'silent' }),
+      // Usado pelo Baileys para reenviar mensagens e descriptografar votos de enquete
+      getMessage: async (key) => {
+        if (!key.remoteJid || !key.id) {
+          return undefined;
+        }
+        return getStoredMessage(session.id, key.remoteJid, key.id)?.message || undefined;
+      },
+      // Evita buscar os metadados do grupo a cada envio
+      cachedGroupMetadata: async (jid) => session.groupMetadataCache.get(jid),
+    });
+    session.socket = socket;
+    
+    session.logger.info('Socket created, setting up event handlers...');
+
+    socket.ev.on('creds.update', saveCreds);
+
+    socket.ev.on('connection.update', async (update) => {
+      const { connection, lastDisconnect, qr } = update;
+
+      // Log detalhado para debug
+      session.logger.info({ 
+        connection, 
+        hasQr: !!qr, 
+        qrLength: qr?.length,
+        lastDisconnectError: lastDisconnect?.error?.message 
+      }, 'Connection update received');
+
+      if (connection) {
+        publishEvent(session.id, 'connection.update', {
+          connection,
+          statusCode: (lastDisconnect?.error as Boom | undefined)?.output?.statusCode,
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (qr) {
+        try {
+          session.qrCode = await QRCode.toDataURL(qr);
+          session.logger.info('✅ QR Code generated successfully');
+          publishEvent(session.id, 'qr.updated', {
+            qrCode: session.qrCode,
+            timestamp: new Date().toISOString(),
+          });
+        } catch (err) {
+          session.logger.error({ err }, '❌ Error generating QR Code');
+        }
+      }
+
+      if (connection === 'close') {
+        const disconnectError = lastDisconnect?.error as Boom;
+        const statusCode = disconnectError?.output?.statusCode;
+        const errorMessage = disconnectError?.message || '';
+        
+        session.logger.info({ 
+          statusCode, 
+          errorMessage,
+          shouldReconnect: statusCode !== DisconnectReason.loggedOut 
+        }, 'Connection closed');
+
+        // Se for "Connection Failure" com statusCode 401, a sessão está corrompida
+        const isConnectionFailure = errorMessage.includes('Connection Failure') || 
+                                   statusCode === DisconnectReason.connectionClosed ||
+                                   statusCode === DisconnectReason.connectionLost;
+        
+        // StatusCode 401 geralmente significa sessão inválida/corrompida
+        const isUnauthorized = statusCode === 401;
+        
+        if (isConnectionFailure || isUnauthorized) {
+          session.logger.warn('⚠️ Connection Failure/Unauthorized detected - session may be corrupted');
+          
+          // Se for 401 (Unauthorized), limpar sessão automaticamente
+          if (isUnauthorized) {
+            session.logger.info('🔧 Auto-clearing corrupted session (statusCode 401)...');
+            try {
+              if (fs.existsSync(session.authDir)) {
+                const authFiles = fs.readdirSync(session.authDir);
+                let deletedCount = 0;
+                
+                authFiles.forEach(file => {
+                  try {
+                    const filePath = `${session.authDir}/${file}`;
+                    if (fs.statSync(filePath).isFile()) {
+                      fs.unlinkSync(filePath);
+                      deletedCount++;
+                    }
+                  } catch (fileError) {
+                    session.logger.warn({ err: fileError, file }, 'Error deleting auth file');
+                  }
+                });
+                
+                session.logger.info({ deletedCount }, '✅ Session files auto-cleared');
+                publishEvent(session.id, 'session.cleared', {
+                  reason: 'unauthorized',
+                  statusCode,
+                  deletedFiles: deletedCount,
+                  timestamp: new Date().toISOString(),
+                });
+              }
+            } catch (clearError) {
+              session.logger.error({ err: clearError }, 'Error auto-clearing session');
+            }
+          } else {
+            session.logger.info('💡 Tip: Try disconnecting with clearSession=true to reset the session');
+          }
+        }
+
+        // Sessão removida via DELETE /sessions/:sessionId - não reconectar
+        const isDeleted = sessions.get(session.id) !== session;
+        const shouldReconnect = statusCode !== DisconnectReason.loggedOut && !isDeleted;
+        
+        // Parar keep-alive se estiver rodando
+        if (session.keepAliveInterval) {
+          clearInterval(session.keepAliveInterval);
+          session.keepAliveInterval = null;
+        }
+        
+        // Limpar estado atual
+        session.connectionStatus = 'disconnected';
+        session.socket = null;
+        session.qrCode = null;
+        session.phoneNumber = null;
+        
+        // Atraso da reconexão automática (null = não reconecta)
+        let reconnectDelay: number | null = null;
+
+        // Se for 401 (Unauthorized), aguardar mais tempo antes de reconectar (sessão foi limpa)
+        if (isDeleted) {
+          session.logger.info('Session deleted - no auto-reconnect');
+        } else if (isUnauthorized) {
+          session.logger.info('✅ Session cleared. Attempting to reconnect in 10 seconds...');
+          reconnectDelay = 10000; // 10 segundos para dar tempo da sessão ser limpa
+          session.reconnectTimeout = setTimeout(() => {
+            session.reconnectTimeout = null;
+            session.logger.info('🔄 Auto-reconnecting after session clear...');
+            startConnection(session).catch(err => {
+              session.logger.error({ err }, 'Error during auto-reconnect after session clear');
+            });
+          }, reconnectDelay);
+        } else if (shouldReconnect) {
+          // Para outros erros, reconectar mais rápido
+          const delay = isConnectionFailure ? 5000 : 3000;
+          reconnectDelay = delay;
+          session.logger.info({ delay }, '🔄 Auto-reconnecting...');
+          session.reconnectTimeout = setTimeout(() => {
+            session.reconnectTimeout = null;
+            startConnection(session).catch(err => {
+              session.logger.error({ err }, 'Error during auto-reconnect');
+            });
+          }, delay);
+        } else {
+          // Logged out - não reconectar automaticamente
+          session.logger.info('Logged out - no auto-reconnect');
+        }
+
+        publishEvent(session.id, 'connection.close', {
+          statusCode,
+          reason: errorMessage || undefined,
+          willReconnect: reconnectDelay !== null,
+          reconnectDelay: reconnectDelay ?? undefined,
+          timestamp: new Date().toISOString(),
+        });
+
+        if (statusCode === DisconnectReason.loggedOut) {
+          publishEvent(session.id, 'logged_out', {
+            statusCode,
+            reason: errorMessage || undefined,
+            timestamp: new Date().toISOString(),
+          });
+        }
+      } else if (connection === 'open') {
+        session.connectionStatus = 'connected';
+        session.qrCode = null; // Limpar QR Code quando conectar
+        // Baileys v7.0.0: user pode ser LID ou PN
+        const userId = session.socket?.user?.id;
+        if (userId) {
+          // Extrair número de telefone (pode ser LID ou PN)
+          session.phoneNumber = userId.split(':')[0] || userId.split('@')[0] || null;
+        }
+        session.logger.info({ phoneNumber: session.phoneNumber, userId }, '✅ Connected successfully - QR Code cleared');
+        publishEvent(session.id, 'connection.open', {
+          phoneNumber: session.phoneNumber,
+          userId,
+          timestamp: new Date().toISOString(),
+        });
+        
+        // Iniciar keep-alive para manter conexão ativa
+        startKeepAlive(session);
+      } else {
+        // Estado intermediário - aguardando QR Code ou conexão
+        session.logger.info('Connection state: connecting');
+      }
+    });
+
+    // Invalidar cache de metadados quando o grupo muda
+    socket.ev.on('groups.update', (updates) => {
+      for (const update of updates) {
+        if (update.id) {
+          session.groupMetadataCache.delete(update.id);
+        }
+      }
+    });
+
+    socket.ev.on('group-participants.update', ({ id, author, participants, action }) => {
+      session.groupMetadataCache.delete(id);
+      publishEvent(session.id, 'group.participants', {
+        groupId: id,
+        author,
+        action,
+        participants: participants.map(participant => participant.id),
+        timestamp: new Date().toISOString(),
+      }, id);
+    });
+
+    socket.ev.on('call', (calls) => {
+      for (const call of calls) {
+        // Apenas a oferta (chamada chegando); demais status são atualizações da mesma chamada
+        if (call.status !== 'offer') {
+          continue;
+        }
+        publishEvent(session.id, 'call.received', {
+          callId: call.id,
+          from: call.from,
+          chatId: call.chatId,
+          isVideo: !!call.isVideo,
+          isGroup: !!call.isGroup,
+          groupId: call.groupJid,
+          timestamp: new Date(call.date).toISOString(),
+        });
+      }
+    });
+
+    // Eventos apenas do stream em tempo real: presença, status e recibos de mensagens
+    socket.ev.on('presence.update', ({ id, presences }) => {
+      emitStreamEvent(session.id, 'presence.update', {
+        chatId: id,
+        presences: Object.fromEntries(
+          Object.entries(presences).map(([participant, presence]) => [participant, presence.lastKnownPresence])
+        ),
+      });
+    });
+
+    // Status das mensagens enviadas (sent, delivered, read, played)
+    socket.ev.on('messages.update', (updates) => {
+      for (const { key, update } of updates) {
+        if (!key.fromMe || !key.remoteJid || !key.id || update.status === undefined || update.status === null) {
+          continue;
+        }
+        try {
+          if (!updateMessageStatus(session.id, key.remoteJid, key.id, update.status)) {
+            continue;
+          }
+          const chatId = toCrmChatId(key.remoteJid);
+          publishEvent(session.id, 'message.status', {
+            chatId,
+            messageId: key.id,
+            status: formatMessageStatus(update.status),
+            timestamp: new Date().toISOString(),
+          }, chatId);
+        } catch (error) {
+          session.logger.error({ err: error, messageId: key.id }, 'Error updating message status');
+        }
+      }
+    });
+
+    // Recibos por destinatário (em grupos chegam um por participante)
+    socket.ev.on('message-receipt.update', (updates) => {
+      for (const { key, receipt } of updates) {
+        if (!key.remoteJid || !key.id) {
+          continue;
+        }
+        try {
+          const status = saveMessageReceipt(session.id, key.remoteJid, key.id, receipt);
+          if (!status) {
+            continue;
+          }
+          const chatId = toCrmChatId(key.remoteJid);
+          publishEvent(session.id, 'message.status', {
+            chatId,
+            messageId: key.id,
+            status,
+            participant: receipt.userJid,
+            timestamp: new Date().toISOString(),
+          }, chatId);
+        } catch (error) {
+          session.logger.error({ err: error, messageId: key.id }, 'Error storing message receipt');
+        }
+      }
+    });
+
+    // Persistir histórico, chats e contatos no store local
+    socket.ev.on('messaging-history.set', ({ chats, contacts, messages }) => {
+      try {
+        saveChats(session.id, chats);
+        saveContacts(session.id, contacts);
+        saveMessages(session.id, messages);
+        session.logger.info({ chats: chats.length, contacts: contacts.length, messages: messages.length }, 'History sync stored');
+      } catch (error) {
+        session.logger.error({ err: error }, 'Error storing history sync');
+      }
+    });
+
+    socket.ev.on('chats.upsert', (chats) => {
+      try {
+        saveChats(session.id, chats);
+      } catch (error) {
+        session.logger.error({ err: error }, 'Error storing chats');
+      }
+    });
+
+    socket.ev.on('chats.update', (updates) => {
+      try {
+        saveChats(session.id, updates);
+      } catch (error) {
+        session.logger.error({ err: error }, 'Error storing chat updates');
+      }
+    });
+
+    socket.ev.on('contacts.upsert', (contacts) => {
+      try {
+        saveContacts(session.id, contacts);
+      } catch (error) {
+        session.logger.error({ err: error }, 'Error storing contacts');
+      }
+    });
+
+    socket.ev.on('contacts.update', (updates) => {
+      try {
+        saveContacts(session.id, updates);
+      } catch (error) {
+        session.logger.error({ err: error }, 'Error storing contact updates');
+      }
+    });
+
+    socket.ev.on('messages.upsert', async (m) => {
+      // Processar mensagens recebidas
+      const { messages, type } = m;
+
+      // Persistir todas as mensagens (inclusive enviadas por nós e sincronizações)
+      try {
+        saveMessages(session.id, messages);
+      } catch (error) {
+        session.logger.error({ err: error }, 'Error storing messages');
+      }
+
+      // Mensagens enviadas pela API vão apenas para o stream (as do celular seguem para os webhooks abaixo)
+      for (const message of messages) {
+        if (!message.key?.fromMe || !message.key.remoteJid || !message.key.id || !session.sentMessageIds.has(message.key.id)) {
+          continue;
+        }
+        const { type: contentType, content } = getMessageSummary(message.message);
+        if (contentType === 'unknown') {
+          continue;
+        }
+        emitStreamEvent(session.id, 'message.sent', {
+          chatId: message.key.remoteJid,
+          messageId: message.key.id,
+          messageType: contentType,
+          message: content,
+          timestamp: message.messageTimestamp ? new Date(Number(message.messageTimestamp) * 1000).toISOString() : new Date().toISOString(),
+        });
+      }
+      
+      if (type !== 'notify') {
+        return; // Ignorar mensagens antigas ou de sincronização
+      }
+
+      for (const message of messages) {
+        try {
+          // Armazenar mensagem no cache (para Download e Forward)
+          if (message.key?.remoteJid && message.key?.id) {
+            const cacheKey = getMessageCacheKey(message.key.remoteJid, message.key.id);
+            session.messageCache.set(cacheKey, message);
+            
+            // Limitar cache a 1000 mensagens (remover mais antigas)
+            if (session.messageCache.size > 1000) {
+              const firstKey = session.messageCache.keys().next().value;
+              if (firstKey) {
+                session.messageCache.delete(firstKey);
+              }
+            }
+          }
+
+          // Ignorar mensagens enviadas pela API (as enviadas pelo celular ou WhatsApp Web vão para o CRM)
+          if (message.key.fromMe && message.key.id && session.sentMessageIds.has(message.key.id)) {
+            continue;
+          }
+
+          // Ignorar mensagens de status
+          if (message.key.remoteJid === 'status@broadcast') {
+            continue;
+          }
+
+          // Grupos só quando habilitados (INGEST_GROUP_MESSAGES + allow/deny list)
+          if (message.key.remoteJid?.endsWith('@g.us') && !shouldIngestGroup(message.key.remoteJid)) {
+            continue;
+          }
+
+          // Reações, edições, exclusões e votos referenciam a mensagem original
+          if (processMessageChange(message, session)) {
+            continue;
+          }
+
+          if (session.socket) {
+            await processIncomingMessage(message, session.socket, session);
+          }
+        } catch (error) {
+          session.logger.error({ err: error, messageId: message.key.id }, 'Error processing incoming message');
+        }
+      }
+    });
+
+  } catch (error) {
+    session.logger.error({ err: error }, 'Error starting connection');
+    session.connectionStatus = 'disconnected';
+    session.socket = null;
+    session.qrCode = null;
+    session.phoneNumber = null;
+    throw error; // Re-lançar erro para que o endpoint /connect possa tratá-lo
+  }
+}
+
+// Função para manter conexão ativa (keep-alive)
+function startKeepAlive(session: WhatsAppSession) {
+  // Parar qualquer keep-alive anterior
+  if (session.keepAliveInterval) {
+    clearInterval(session.keepAliveInterval);
+  }
+  
+  // Enviar presença a cada 30 segundos para manter conexão ativa
+  session.keepAliveInterval = setInterval(async () => {
+    if (session.socket && session.connectionStatus === 'connected') {
+      try {
+        // Enviar presença "available" para manter conexão ativa
+        await session.socket.sendPresenceUpdate('available');
+        session.logger.debug('Keep-alive: Presence updated');
+      } catch (error) {
+        session.logger.warn({ err: error }, 'Keep-alive: Error sending presence update');
+        // Se houver erro, pode ser que a conexão caiu
+        // O event handler de connection.update vai tratar
+      }
+    } else {
+      // Se não está conectado, parar keep-alive
+      if (session.keepAliveInterval) {
+        clearInterval(session.keepAliveInterval);
+        session.keepAliveInterval = null;
+      }
+    }
+  }, 30000); // A cada 30 segundos
+  
+  session.logger.info('Keep-alive started');
+}
+
+// Função para verificar se há sessão salva e conectar automaticamente
+async function autoConnectSession(session: WhatsAppSession) {
+  try {
+    // Verificar se existe diretório de auth e se tem arquivos
+    if (!fs.existsSync(session.authDir)) {
+      session.logger.info('No auth directory found - skipping auto-connect');
+      return;
+    }
+    
+    const authFiles = fs.readdirSync(session.authDir);
+    const hasCreds = authFiles.some(file => file === 'creds.json' || file.startsWith('app-state-sync'));
+    
+    if (!hasCreds) {
+      session.logger.info('No saved session found - skipping auto-connect');
+      return;
+    }
+    
+    session.logger.info('Saved session found - attempting auto-connect...');
+    await startConnection(session);
+  } catch (error) {
+    session.logger.error({ err: error }, 'Error during auto-connect on startup');
+  }
+}
+
+// Conectar automaticamente todas as sessões com credenciais salvas
+export async function autoConnectOnStartup() {
+  for (const session of listSessions()) {
+    await autoConnectSession(session);
+  }
+}
@@ -0,0 +1,525 @@
+import { proto, toNumber, normalizeMessageContent, Chat, ChatUpdate, Contact, WAMessage } from '@whiskeysockets/baileys';
+import { db } from './db.js';
+
+// Store persistente de chats, contatos e mensagens (por sessão)
+db.exec(`
+  CREATE TABLE IF NOT EXISTS chats (
+    session_id TEXT NOT NULL,
+    jid TEXT NOT NULL,
+    name TEXT,
+    unread_count INTEGER,
+    archived INTEGER,
+    last_message_at INTEGER,
+    PRIMARY KEY (session_id, jid)
+  );
+
+  CREATE TABLE IF NOT EXISTS contacts (
+    session_id TEXT NOT NULL,
+    jid TEXT NOT NULL,
+    name TEXT,
+    notify TEXT,
+    verified_name TEXT,
+    PRIMARY KEY (session_id, jid)
+  );
+
+  CREATE TABLE IF NOT EXISTS messages (
+    session_id TEXT NOT NULL,
+    chat_jid TEXT NOT NULL,
+    id TEXT NOT NULL,
+    from_me INTEGER NOT NULL,
+    participant TEXT,
+    timestamp INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    content TEXT,
+    status INTEGER,
+    raw BLOB NOT NULL,
+    PRIMARY KEY (session_id, chat_jid, id)
+  );
+
+  -- Transições de status das mensagens enviadas (sent, delivered, read, played)
+  CREATE TABLE IF NOT EXISTS message_status_history (
+    session_id TEXT NOT NULL,
+    chat_jid TEXT NOT NULL,
+    message_id TEXT NOT NULL,
+    status INTEGER NOT NULL,
+    at INTEGER NOT NULL,
+    PRIMARY KEY (session_id, chat_jid, message_id, status)
+  );
+
+  -- Recibos por destinatário (em grupos, um por participante)
+  CREATE TABLE IF NOT EXISTS message_receipts (
+    session_id TEXT NOT NULL,
+    chat_jid TEXT NOT NULL,
+    message_id TEXT NOT NULL,
+    user_jid TEXT NOT NULL,
+    delivered_at INTEGER,
+    read_at INTEGER,
+    played_at INTEGER,
+    PRIMARY KEY (session_id, chat_jid, message_id, user_jid)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_chats_last_message ON chats (session_id, last_message_at DESC, jid DESC);
+  CREATE INDEX IF NOT EXISTS idx_messages_chat_timestamp ON messages (session_id, chat_jid, timestamp DESC, id DESC);
+  CREATE INDEX IF NOT EXISTS idx_messages_id ON messages (session_id, id);
+`);
+
+interface ChatRow {
+  jid: string;
+  name: string | null;
+  unread_count: number | null;
+  archived: number | null;
+  last_message_at: number | null;
+}
+
+interface MessageRow {
+  chat_jid: string;
+  id: string;
+  from_me: number;
+  participant: string | null;
+  timestamp: number;
+  type: string;
+  content: string | null;
+  status: number | null;
+  raw: Buffer;
+}
+
+const upsertChatStmt = db.prepare(`
+  INSERT INTO chats (session_id, jid, name, unread_count, archived, last_message_at)
+  VALUES (@sessionId, @jid, @name, @unreadCount, @archived, @lastMessageAt)
+  ON CONFLICT (session_id, jid) DO UPDATE SET
+    name = COALESCE(excluded.name, chats.name),
+    unread_count = COALESCE(excluded.unread_count, chats.unread_count),
+    archived = COALESCE(excluded.archived, chats.archived),
+    last_message_at = MAX(COALESCE(excluded.last_message_at, 0), COALESCE(chats.last_message_at, 0))
+`);
+
+const upsertContactStmt = db.prepare(`
+  INSERT INTO contacts (session_id, jid, name, notify, verified_name)
+  VALUES (@sessionId, @jid, @name, @notify, @verifiedName)
+  ON CONFLICT (session_id, jid) DO UPDATE SET
+    name = COALESCE(excluded.name, contacts.name),
+    notify = COALESCE(excluded.notify, contacts.notify),
+    verified_name = COALESCE(excluded.verified_name, contacts.verified_name)
+`);
+
+const upsertMessageStmt = db.prepare(`
+  INSERT INTO messages (session_id, chat_jid, id, from_me, participant, timestamp, type, content, status, raw)
+  VALUES (@sessionId, @chatJid, @id, @fromMe, @participant, @timestamp, @type, @content, @status, @raw)
+  ON CONFLICT (session_id, chat_jid, id) DO UPDATE SET
+    type = excluded.type,
+    content = excluded.content,
+    status = MAX(COALESCE(excluded.status, 0), COALESCE(messages.status, 0)),
+    raw = excluded.raw
+`);
+
+// Nome do status (proto.WebMessageInfo.Status) usado na API e nos webhooks
+const MESSAGE_STATUS_NAMES: Record<number, string> = {
+  [proto.WebMessageInfo.Status.ERROR]: 'error',
+  [proto.WebMessageInfo.Status.PENDING]: 'pending',
+  [proto.WebMessageInfo.Status.SERVER_ACK]: 'sent',
+  [proto.WebMessageInfo.Status.DELIVERY_ACK]: 'delivered',
+  [proto.WebMessageInfo.Status.READ]: 'read',
+  [proto.WebMessageInfo.Status.PLAYED]: 'played',
+};
+
+export function formatMessageStatus(status: number | null | undefined): string {
+  return status !== null && status !== undefined ? MESSAGE_STATUS_NAMES[status] || 'unknown' : 'unknown';
+}
+
+// Resumo (tipo + conteúdo textual) de uma mensagem para listagens
+export function getMessageSummary(message: proto.IMessage | null | undefined): { type: string; content: string } {
+  const content = normalizeMessageContent(message);
+
+  if (content?.conversation) {
+    return { type: 'text', content: content.conversation };
+  } else if (content?.extendedTextMessage?.text) {
+    return { type: 'text', content: content.extendedTextMessage.text };
+  } else if (content?.imageMessage) {
+    return { type: 'image', content: content.imageMessage.caption || '[Imagem]' };
+  } else if (content?.videoMessage) {
+    return { type: 'video', content: content.videoMessage.caption || '[Vídeo]' };
+  } else if (content?.audioMessage) {
+    return { type: 'audio', content: '[Áudio]' };
+  } else if (content?.documentMessage) {
+    return { type: 'document', content: `[Documento: ${content.documentMessage.fileName || 'arquivo'}]` };
+  } else if (content?.stickerMessage) {
+    return { type: 'sticker', content: '[Sticker]' };
+  } else if (content?.locationMessage || content?.liveLocationMessage) {
+    return { type: 'location', content: content.locationMessage?.name || '[Localização]' };
+  } else if (content?.contactMessage || content?.contactsArrayMessage) {
+    return { type: 'contact', content: '[Contato]' };
+  } else if (content?.buttonsResponseMessage) {
+    return { type: 'button_reply', content: content.buttonsResponseMessage.selectedDisplayText || '[Resposta]' };
+  } else if (content?.listResponseMessage) {
+    return { type: 'list_reply', content: content.listResponseMessage.title || '[Resposta]' };
+  } else if (content?.pollCreationMessage || content?.pollCreationMessageV2 || content?.pollCreationMessageV3) {
+    const poll = content.pollCreationMessage || content.pollCreationMessageV2 || content.pollCreationMessageV3;
+    return { type: 'poll', content: poll?.name || '[Enquete]' };
+  }
+
+  return { type: 'unknown', content: '[Mensagem não suportada]' };
+}
+
+// Salvar chats (chats.upsert, chats.update e histórico)
+export function saveChats(sessionId: string, chats: (Chat | ChatUpdate)[]) {
+  const save = db.transaction((items: (Chat | ChatUpdate)[]) => {
+    for (const chat of items) {
+      if (!chat.id) {
+        continue;
+      }
+      upsertChatStmt.run({
+        sessionId,
+        jid: chat.id,
+        name: chat.name || null,
+        unreadCount: chat.unreadCount ?? null,
+        archived: chat.archived === undefined || chat.archived === null ? null : Number(chat.archived),
+        lastMessageAt: chat.conversationTimestamp ? toNumber(chat.conversationTimestamp) : null,
+      });
+    }
+  });
+  save(chats);
+}
+
+// Salvar contatos (contacts.upsert, contacts.update e histórico)
+export function saveContacts(sessionId: string, contacts: Partial<Contact>[]) {
+  const save = db.transaction((items: Partial<Contact>[]) => {
+    for (const contact of items) {
+      if (!contact.id) {
+        continue;
+      }
+      upsertContactStmt.run({
+        sessionId,
+        jid: contact.id,
+        name: contact.name || null,
+        notify: contact.notify || null,
+        verifiedName: contact.verifiedName || null,
+      });
+    }
+  });
+  save(contacts);
+}
+
+// Salvar mensagens (messages.upsert e histórico)
+export function saveMessages(sessionId: string, messages: WAMessage[]) {
+  const save = db.transaction((items: WAMessage[]) => {
+    for (const message of items) {
+      const { key } = message;
+      if (!key?.remoteJid || !key.id || !message.message) {
+        continue;
+      }
+
+      // Reações, mensagens de protocolo (apagar/editar) e votos alteram outras mensagens - não entram no histórico
+      // (normalizado: edições chegam dentro de editedMessage, como em message-changes.ts)
+      const normalized = normalizeMessageContent(message.message);
+      if (normalized?.reactionMessage || normalized?.protocolMessage || normalized?.pollUpdateMessage) {
+        continue;
+      }
+
+      const timestamp = message.messageTimestamp ? toNumber(message.messageTimestamp) : Math.floor(Date.now() / 1000);
+      const { type, content } = getMessageSummary(message.message);
+
+      upsertMessageStmt.run({
+        sessionId,
+        chatJid: key.remoteJid,
+        id: key.id,
+        fromMe: key.fromMe ? 1 : 0,
+        participant: key.participant || null,
+        timestamp,
+        type,
+        content,
+        status: message.status ?? null,
+        raw: Buffer.from(proto.WebMessageInfo.encode(message).finish()),
+      });
+
+      upsertChatStmt.run({
+        sessionId,
+        jid: key.remoteJid,
+        name: null,
+        unreadCount: null,
+        archived: null,
+        lastMessageAt: timestamp,
+      });
+
+      // pushName identifica o remetente mesmo sem contacts.upsert (ex.: participantes de grupos)
+      if (!key.fromMe && message.pushName) {
+        upsertContactStmt.run({
+          sessionId,
+          jid: key.participant || key.remoteJid,
+          name: null,
+          notify: message.pushName,
+          verifiedName: null,
+        });
+      }
+    }
+  });
+  save(messages);
+}
+
+// Buscar mensagem completa salva
+export function getStoredMessage(sessionId: string, jid: string, messageId: string): proto.IWebMessageInfo | null {
+  const row = db
+    .prepare('SELECT raw FROM messages WHERE session_id = ? AND chat_jid = ? AND id = ?')
+    .get(sessionId, jid, messageId) as Pick<MessageRow, 'raw'> | undefined;
+
+  return row ? proto.WebMessageInfo.decode(row.raw) : null;
+}
+
+// Existe outra mensagem salva neste chat além da informada? (identifica o primeiro contato)
+export function hasEarlierMessages(sessionId: string, jid: string, messageId: string): boolean {
+  const row = db
+    .prepare('SELECT 1 FROM messages WHERE session_id = ? AND chat_jid = ? AND id != ? LIMIT 1')
+    .get(sessionId, jid, messageId);
+
+  return row !== undefined;
+}
+
+function formatChat(row: ChatRow & { contact_name: string | null }) {
+  return {
+    id: row.jid,
+    name: row.name || row.contact_name || undefined,
+    isGroup: row.jid.endsWith('@g.us'),
+    unreadCount: row.unread_count ?? 0,
+    archived: !!row.archived,
+    lastMessageAt: row.last_message_at ? new Date(row.last_message_at * 1000).toISOString() : undefined,
+  };
+}
+
+function formatMessage(row: MessageRow) {
+  return {
+    id: row.id,
+    chatId: row.chat_jid,
+    fromMe: !!row.from_me,
+    participant: row.participant || undefined,
+    content: row.content,
+    type: row.type,
+    timestamp: new Date(row.timestamp * 1000).toISOString(),
+    status: formatMessageStatus(row.status),
+  };
+}
+
+// Cursor de chats: "<lastMessageAt>:<jid>" do último chat da página anterior
+function encodeChatCursor(row: ChatRow): string {
+  return `${row.last_message_at || 0}:${row.jid}`;
+}
+
+function decodeChatCursor(cursor: string): { lastMessageAt: number; jid: string } | null {
+  const separator = cursor.indexOf(':');
+  const lastMessageAt = parseInt(cursor.slice(0, separator), 10);
+  if (separator < 0 || isNaN(lastMessageAt)) {
+    return null;
+  }
+  return { lastMessageAt, jid: cursor.slice(separator + 1) };
+}
+
+// Listar chats ordenados pela última mensagem (mais recentes primeiro)
+export function listChats(sessionId: string, options: { limit: number; offset?: number; before?: string }) {
+  const { limit, offset = 0, before } = options;
+  const cursor = before ? decodeChatCursor(before) : null;
+
+  const rows = db.prepare(`
+    SELECT c.*, COALESCE(ct.name, ct.notify, ct.verified_name) AS contact_name
+    FROM chats c
+    LEFT JOIN contacts ct ON ct.session_id = c.session_id AND ct.jid = c.jid
+    WHERE c.session_id = @sessionId
+      AND (@cursorAt IS NULL OR COALESCE(c.last_message_at, 0) < @cursorAt
+        OR (COALESCE(c.last_message_at, 0) = @cursorAt AND c.jid < @cursorJid))
+    ORDER BY COALESCE(c.last_message_at, 0) DESC, c.jid DESC
+    LIMIT @limit OFFSET @offset
+  `).all({
+    sessionId,
+    cursorAt: cursor ? cursor.lastMessageAt : null,
+    cursorJid: cursor ? cursor.jid : null,
+    limit: limit + 1,
+    offset: cursor ? 0 : offset,
+  }) as (ChatRow & { contact_name: string | null })[];
+
+  const { total } = db
+    .prepare('SELECT COUNT(*) AS total FROM chats WHERE session_id = ?')
+    .get(sessionId) as { total: number };
+
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+
+  return {
+    chats: page.map(formatChat),
+    total,
+    hasMore,
+    nextCursor: hasMore ? encodeChatCursor(page[page.length - 1]) : undefined,
+  };
+}
+
+// Listar mensagens de um chat (mais recentes primeiro), antes da mensagem "before" se informada
+export function listMessages(sessionId: string, jid: string, options: { limit: number; before?: string }) {
+  const { limit, before } = options;
+
+  let cursor: { timestamp: number; id: string } | null = null;
+  if (before) {
+    const row = db
+      .prepare('SELECT timestamp, id FROM messages WHERE session_id = ? AND chat_jid = ? AND id = ?')
+      .get(sessionId, jid, before) as Pick<MessageRow, 'timestamp' | 'id'> | undefined;
+    if (!row) {
+      return null;
+    }
+    cursor = row;
+  }
+
+  const rows = db.prepare(`
+    SELECT * FROM messages
+    WHERE session_id = @sessionId AND chat_jid = @jid
+      AND (@cursorTimestamp IS NULL OR timestamp < @cursorTimestamp
+        OR (timestamp = @cursorTimestamp AND id < @cursorId))
+    ORDER BY timestamp DESC, id DESC
+    LIMIT @limit
+  `).all({
+    sessionId,
+    jid,
+    cursorTimestamp: cursor ? cursor.timestamp : null,
+    cursorId: cursor ? cursor.id : null,
+    limit: limit + 1,
+  }) as MessageRow[];
+
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+
+  return {
+    messages: page.map(formatMessage),
+    hasMore,
+    nextCursor: hasMore ? page[page.length - 1].id : undefined,
+  };
+}
+
+// Aplicar edição ao conteúdo salvo da mensagem
+export function applyMessageEdit(sessionId: string, jid: string, messageId: string, editedMessage: proto.IMessage | null | undefined) {
+  const { type, content } = getMessageSummary(editedMessage);
+  if (type === 'unknown') {
+    return;
+  }
+  db.prepare('UPDATE messages SET type = ?, content = ? WHERE session_id = ? AND chat_jid = ? AND id = ?')
+    .run(type, content, sessionId, jid, messageId);
+}
+
+// Mensagem apagada para todos: mantém o registro, sem o conteúdo
+export function markMessageRevoked(sessionId: string, jid: string, messageId: string) {
+  db.prepare("UPDATE messages SET type = 'revoked', content = '[Mensagem apagada]' WHERE session_id = ? AND chat_jid = ? AND id = ?")
+    .run(sessionId, jid, messageId);
+}
+
+// Mensagem apagada só para nós: remove do histórico
+export function deleteStoredMessage(sessionId: string, jid: string, messageId: string) {
+  db.prepare('DELETE FROM messages WHERE session_id = ? AND chat_jid = ? AND id = ?').run(sessionId, jid, messageId);
+}
+
+// Registrar novo status de uma mensagem; retorna true se o status avançou
+// (o WhatsApp pode reenviar status antigos ou fora de ordem)
+export function updateMessageStatus(sessionId: string, jid: string, messageId: string, status: number): boolean {
+  const { current } = db.prepare(`
+    SELECT MAX(status) AS current FROM message_status_history
+    WHERE session_id = ? AND chat_jid = ? AND message_id = ?
+  `).get(sessionId, jid, messageId) as { current: number | null };
+
+  if (current !== null && status <= current) {
+    return false;
+  }
+
+  db.transaction(() => {
+    db.prepare(`
+      INSERT OR IGNORE INTO message_status_history (session_id, chat_jid, message_id, status, at) VALUES (?, ?, ?, ?, ?)
+    `).run(sessionId, jid, messageId, status, Date.now());
+    db.prepare('UPDATE messages SET status = MAX(COALESCE(status, 0), ?) WHERE session_id = ? AND chat_jid = ? AND id = ?')
+      .run(status, sessionId, jid, messageId);
+  })();
+  return true;
+}
+
+// Registrar recibo de um destinatário; retorna o novo status mais alto (delivered/read/played)
+// ou null se o recibo não avançou o status já registrado (recibos repetidos ou fora de ordem)
+export function saveMessageReceipt(sessionId: string, jid: string, messageId: string, receipt: proto.IUserReceipt): string | null {
+  if (!receipt.userJid) {
+    return null;
+  }
+
+  const deliveredAt = receipt.receiptTimestamp ? toNumber(receipt.receiptTimestamp) : null;
+  const readAt = receipt.readTimestamp ? toNumber(receipt.readTimestamp) : null;
+  const playedAt = receipt.playedTimestamp ? toNumber(receipt.playedTimestamp) : null;
+  const getStatus = (row: { delivered_at: number | null; read_at: number | null; played_at: number | null }) =>
+    row.played_at ? 'played' : row.read_at ? 'read' : row.delivered_at ? 'delivered' : null;
+
+  return db.transaction(() => {
+    const existing = db.prepare(`
+      SELECT delivered_at, read_at, played_at FROM message_receipts
+      WHERE session_id = ? AND chat_jid = ? AND message_id = ? AND user_jid = ?
+    `).get(sessionId, jid, messageId, receipt.userJid) as { delivered_at: number | null; read_at: number | null; played_at: number | null } | undefined;
+
+    db.prepare(`
+      INSERT INTO message_receipts (session_id, chat_jid, message_id, user_jid, delivered_at, read_at, played_at)
+      VALUES (@sessionId, @jid, @messageId, @userJid, @deliveredAt, @readAt, @playedAt)
+      ON CONFLICT (session_id, chat_jid, message_id, user_jid) DO UPDATE SET
+        delivered_at = COALESCE(message_receipts.delivered_at, excluded.delivered_at),
+        read_at = COALESCE(message_receipts.read_at, excluded.read_at),
+        played_at = COALESCE(message_receipts.played_at, excluded.played_at)
+    `).run({ sessionId, jid, messageId, userJid: receipt.userJid, deliveredAt, readAt, playedAt });
+
+    const previous = existing ? getStatus(existing) : null;
+    const current = getStatus({
+      delivered_at: existing?.delivered_at ?? deliveredAt,
+      read_at: existing?.read_at ?? readAt,
+      played_at: existing?.played_at ?? playedAt,
+    });
+    return current !== previous ? current : null;
+  })();
+}
+
+function toIsoFromSeconds(timestamp: number | null): string | undefined {
+  return timestamp ? new Date(timestamp * 1000).toISOString() : undefined;
+}
+
+// Status atual, histórico de transições e recibos por destinatário de uma mensagem
+export function getMessageStatus(sessionId: string, jid: string, messageId: string) {
+  const message = db
+    .prepare('SELECT status, from_me FROM messages WHERE session_id = ? AND chat_jid = ? AND id = ?')
+    .get(sessionId, jid, messageId) as Pick<MessageRow, 'status' | 'from_me'> | undefined;
+
+  const history = db.prepare(`
+    SELECT status, at FROM message_status_history
+    WHERE session_id = ? AND chat_jid = ? AND message_id = ?
+    ORDER BY status
+  `).all(sessionId, jid, messageId) as { status: number; at: number }[];
+
+  const receipts = db.prepare(`
+    SELECT user_jid, delivered_at, read_at, played_at FROM message_receipts
+    WHERE session_id = ? AND chat_jid = ? AND message_id = ?
+    ORDER BY user_jid
+  `).all(sessionId, jid, messageId) as { user_jid: string; delivered_at: number | null; read_at: number | null; played_at: number | null }[];
+
+  if (!message && history.length === 0 && receipts.length === 0) {
+    return null;
+  }
+
+  const status = Math.max(message?.status ?? -1, ...history.map(entry => entry.status));
+
+  return {
+    fromMe: message ? !!message.from_me : undefined,
+    status: formatMessageStatus(status >= 0 ? status : null),
+    history: history.map(entry => ({
+      status: formatMessageStatus(entry.status),
+      at: new Date(entry.at).toISOString(),
+    })),
+    receipts: receipts.map(receipt => ({
+      participant: receipt.user_jid,
+      deliveredAt: toIsoFromSeconds(receipt.delivered_at),
+      readAt: toIsoFromSeconds(receipt.read_at),
+      playedAt: toIsoFromSeconds(receipt.played_at),
+    })),
+  };
+}
+
+// Apagar todos os dados salvos de uma sessão
+export function deleteSessionData(sessionId: string) {
+  db.transaction(() => {
+    db.prepare('DELETE FROM message_status_history WHERE session_id = ?').run(sessionId);
+    db.prepare('DELETE FROM message_receipts WHERE session_id = ?').run(sessionId);
+    db.prepare('DELETE FROM messages WHERE session_id = ?').run(sessionId);
+    db.prepare('DELETE FROM chats WHERE session_id = ?').run(sessionId);
+    db.prepare('DELETE FROM contacts WHERE session_id = ?').run(sessionId);
+  })();
+}
@@ -0,0 +1,282 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { dirname } from 'path';
+import {
+  CRM_WEBHOOK_URL,
+  CRM_WEBHOOK_EVENTS,
+  WEBHOOKS_FILE,
+  WEBHOOK_SECRET,
+  WEBHOOK_BEARER_TOKEN,
+  WEBHOOK_HEADERS,
+} from './config.js';
+import { logger } from './logger.js';
+
+// Eventos que podem ser assinados ("*" assina todos)
+export const WEBHOOK_EVENT_TYPES = [
+  'message.received',
+  'message.sent',
+  'message.status',
+  'message.reaction',
+  'message.edited',
+  'message.deleted',
+  'poll.vote',
+  'scheduled_message.sent',
+  'scheduled_message.failed',
+  'outbox.sent',
+  'outbox.failed',
+  'campaign.completed',
+  'consent.updated',
+  'connection.update',
+  'connection.open',
+  'connection.close',
+  'qr.updated',
+  'session.cleared',
+  'logged_out',
+  'group.participants',
+  'call.received',
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: string[];
+  // Sessões cujos eventos são entregues (vazio = todas)
+  sessionIds?: string[];
+  secret?: string;
+  bearerToken?: string;
+  headers?: Record<string, string>;
+  enabled: boolean;
+  // "env" = CRM_WEBHOOK_URL, não pode ser alterada pela API
+  source: 'env' | 'file';
+  createdAt: string;
+  updatedAt: string;
+}
+
+// secret, bearerToken e headers aceitam null para remover o valor
+export type WebhookSubscriptionInput = Partial<Pick<WebhookSubscription, 'url' | 'events' | 'sessionIds' | 'enabled'>> & {
+  secret?: string | null;
+  bearerToken?: string | null;
+  headers?: Record<string, string> | null;
+};
+
+// Campos removidos quando enviados como null
+const CLEARABLE_FIELDS = ['secret', 'bearerToken', 'headers'] as const;
+
+// Assinatura criada a partir de CRM_WEBHOOK_URL
+export const CRM_SUBSCRIPTION_ID = 'crm';
+
+const subscriptions = new Map<string, WebhookSubscription>();
+
+// Headers fixos configurados em WEBHOOK_HEADERS (objeto JSON)
+function parseStaticHeaders(raw: string): Record<string, string> {
+  if (!raw) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('WEBHOOK_HEADERS must be a JSON object');
+    }
+    return Object.fromEntries(Object.entries(parsed).map(([name, value]) => [name, String(value)]));
+  } catch (error) {
+    logger.error({ err: error }, '❌ Invalid WEBHOOK_HEADERS - ignoring static headers');
+    return {};
+  }
+}
+
+// Validar dados de criação/atualização; retorna mensagem de erro ou null
+export function validateSubscriptionInput(input: WebhookSubscriptionInput, partial = false): string | null {
+  if (!partial || input.url !== undefined) {
+    try {
+      const url = new URL(String(input.url));
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return 'url must be an http(s) URL';
+      }
+    } catch {
+      return 'url must be a valid URL';
+    }
+  }
+
+  if (!partial || input.events !== undefined) {
+    if (!Array.isArray(input.events) || input.events.length === 0) {
+      return 'events must be a non-empty array';
+    }
+    const unknown = input.events.filter(event => event !== '*' && !WEBHOOK_EVENT_TYPES.includes(event as WebhookEventType));
+    if (unknown.length > 0) {
+      return `Unknown events: ${unknown.join(', ')}. Valid events: *, ${WEBHOOK_EVENT_TYPES.join(', ')}`;
+    }
+  }
+
+  if (input.sessionIds !== undefined && (!Array.isArray(input.sessionIds) || !input.sessionIds.every(id => typeof id === 'string'))) {
+    return 'sessionIds must be an array of session IDs';
+  }
+
+  if (input.secret !== undefined && input.secret !== null && typeof input.secret !== 'string') {
+    return 'secret must be a string or null';
+  }
+
+  if (input.bearerToken !== undefined && input.bearerToken !== null && typeof input.bearerToken !== 'string') {
+    return 'bearerToken must be a string or null';
+  }
+
+  if (input.headers !== undefined && input.headers !== null) {
+    if (typeof input.headers !== 'object' || Array.isArray(input.headers)) {
+      return 'headers must be an object or null';
+    }
+    if (!Object.values(input.headers).every(value => typeof value === 'string')) {
+      return 'headers values must be strings';
+    }
+  }
+
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+
+  return null;
+}
+
+// Gravar assinaturas de arquivo (a de ambiente não é persistida)
+function saveSubscriptionsFile() {
+  const fileSubscriptions = Array.from(subscriptions.values()).filter(subscription => subscription.source === 'file');
+
+  fs.mkdirSync(dirname(WEBHOOKS_FILE), { recursive: true });
+  const tmpFile = `${WEBHOOKS_FILE}.tmp`;
+  fs.writeFileSync(tmpFile, JSON.stringify(fileSubscriptions, null, 2));
+  fs.renameSync(tmpFile, WEBHOOKS_FILE);
+}
+
+// Carregar assinatura do CRM_WEBHOOK_URL e as assinaturas do WEBHOOKS_FILE
+export function loadSubscriptions() {
+  subscriptions.clear();
+  const now = new Date().toISOString();
+
+  if (CRM_WEBHOOK_URL) {
+    subscriptions.set(CRM_SUBSCRIPTION_ID, {
+      id: CRM_SUBSCRIPTION_ID,
+      url: CRM_WEBHOOK_URL,
+      events: CRM_WEBHOOK_EVENTS,
+      secret: WEBHOOK_SECRET || undefined,
+      bearerToken: WEBHOOK_BEARER_TOKEN || undefined,
+      headers: parseStaticHeaders(WEBHOOK_HEADERS),
+      enabled: true,
+      source: 'env',
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  if (fs.existsSync(WEBHOOKS_FILE)) {
+    try {
+      const entries = JSON.parse(fs.readFileSync(WEBHOOKS_FILE, 'utf-8'));
+      if (!Array.isArray(entries)) {
+        throw new Error('Webhooks file must contain a JSON array');
+      }
+
+      for (const entry of entries) {
+        const error = validateSubscriptionInput(entry);
+        if (error) {
+          logger.warn({ entry: entry?.id, error }, '⚠️ Skipping invalid webhook subscription');
+          continue;
+        }
+        const id = entry.id || crypto.randomUUID();
+        if (id === CRM_SUBSCRIPTION_ID) {
+          logger.warn('⚠️ Webhook id "crm" is reserved for CRM_WEBHOOK_URL - skipping file entry');
+          continue;
+        }
+        subscriptions.set(id, {
+          id,
+          url: entry.url,
+          events: entry.events,
+          sessionIds: entry.sessionIds,
+          secret: entry.secret,
+          bearerToken: entry.bearerToken,
+          headers: entry.headers,
+          enabled: entry.enabled !== false,
+          source: 'file',
+          createdAt: entry.createdAt || now,
+          updatedAt: entry.updatedAt || now,
+        });
+      }
+    } catch (error) {
+      logger.error({ err: error, file: WEBHOOKS_FILE }, '❌ Error loading webhooks file');
+    }
+  }
+
+  logger.info({ subscriptions: subscriptions.size }, 'Webhook subscriptions loaded');
+}
+
+export function listSubscriptions(): WebhookSubscription[] {
+  return Array.from(subscriptions.values());
+}
+
+export function getSubscription(id: string): WebhookSubscription | null {
+  return subscriptions.get(id) || null;
+}
+
+// Assinaturas ativas que recebem o evento da sessão
+export function getMatchingSubscriptions(sessionId: string, event: string): WebhookSubscription[] {
+  return listSubscriptions().filter(subscription =>
+    subscription.enabled &&
+    (subscription.events.includes('*') || subscription.events.includes(event)) &&
+    (!subscription.sessionIds || subscription.sessionIds.length === 0 || subscription.sessionIds.includes(sessionId))
+  );
+}
+
+export function createSubscription(input: WebhookSubscriptionInput): WebhookSubscription {
+  const now = new Date().toISOString();
+  const subscription: WebhookSubscription = {
+    id: crypto.randomUUID(),
+    url: input.url!,
+    events: input.events!,
+    sessionIds: input.sessionIds,
+    secret: input.secret ?? undefined,
+    bearerToken: input.bearerToken ?? undefined,
+    headers: input.headers ?? undefined,
+    enabled: input.enabled !== false,
+    source: 'file',
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  subscriptions.set(subscription.id, subscription);
+  saveSubscriptionsFile();
+  logger.info({ subscriptionId: subscription.id, url: subscription.url, events: subscription.events }, 'Webhook subscription created');
+  return subscription;
+}
+
+export function updateSubscription(subscription: WebhookSubscription, input: WebhookSubscriptionInput): WebhookSubscription {
+  const updated: WebhookSubscription = {
+    ...subscription,
+    ...Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined)),
+    updatedAt: new Date().toISOString(),
+  };
+  for (const field of CLEARABLE_FIELDS) {
+    if (input[field] === null) {
+      delete updated[field];
+    }
+  }
+
+  subscriptions.set(updated.id, updated);
+  saveSubscriptionsFile();
+  logger.info({ subscriptionId: updated.id }, 'Webhook subscription updated');
+  return updated;
+}
+
+export function deleteSubscription(subscription: WebhookSubscription) {
+  subscriptions.delete(subscription.id);
+  saveSubscriptionsFile();
+  logger.info({ subscriptionId: subscription.id }, 'Webhook subscription deleted');
+}
+
+// Representação pública (sem segredos)
+export function formatSubscription(subscription: WebhookSubscription) {
+  const { secret, bearerToken, headers, ...rest } = subscription;
+  return {
+    ...rest,
+    hasSecret: !!secret,
+    hasBearerToken: !!bearerToken,
+    headers: headers ? Object.keys(headers) : [],
+  };
+}
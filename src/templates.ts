@@ -0,0 +1,415 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import { join } from 'path';
+import { db } from './db.js';
+import { logger } from './logger.js';
+import { TEMPLATES_DIR } from './config.js';
+import { detectMediaType, getUploadSizeError } from './uploads.js';
+import { processBase64Data } from './send.js';
+import type { SendMessageFile, SendMessageInput } from './send.js';
+import { extractPlaceholders, getMissingVariables, renderPlaceholders, TemplateVariables } from './placeholders.js';
+
+// Modelos de mensagem reutilizáveis (saudações, tabela de preços, instruções de PIX...):
+// texto com {{variaveis}}, mídia opcional gravada em TEMPLATES_DIR e opções de resposta.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS message_templates (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    message TEXT,
+    media TEXT,
+    buttons TEXT,
+    list TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+`);
+
+if (!fs.existsSync(TEMPLATES_DIR)) {
+  fs.mkdirSync(TEMPLATES_DIR, { recursive: true });
+}
+
+export interface TemplateButton {
+  id?: string;
+  title: string;
+}
+
+export interface TemplateList {
+  title?: string;
+  sections: { title?: string; rows: { id?: string; title: string; description?: string }[] }[];
+}
+
+// Mídia do modelo: arquivo gravado em disco (upload/base64) ou URL remota
+interface TemplateMedia {
+  type: string;
+  mimetype: string;
+  filename?: string;
+  size?: number;
+  path?: string;
+  url?: string;
+}
+
+export interface TemplateInput {
+  name?: string;
+  message?: string | null;
+  mediaUrl?: string;
+  mediaData?: string;
+  mediaType?: string;
+  mediaMimetype?: string;
+  mediaFilename?: string;
+  // PATCH: true remove a mídia atual
+  removeMedia?: boolean;
+  buttons?: TemplateButton[] | null;
+  list?: TemplateList | null;
+}
+
+interface TemplateRow {
+  id: string;
+  name: string;
+  message: string | null;
+  media: string | null;
+  buttons: string | null;
+  list: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export const MEDIA_TYPES = ['image', 'video', 'audio', 'document', 'sticker'];
+const MAX_BUTTONS = 3;
+const MAX_LIST_ROWS = 10;
+
+function parseRow(row: TemplateRow) {
+  return {
+    media: row.media ? JSON.parse(row.media) as TemplateMedia : null,
+    buttons: row.buttons ? JSON.parse(row.buttons) as TemplateButton[] : null,
+    list: row.list ? JSON.parse(row.list) as TemplateList : null,
+  };
+}
+
+// Texto final do modelo: mensagem + opções numeradas. O WhatsApp não exibe mais botões e listas
+// interativos para contas fora da API oficial, então as opções vão no texto ("1 - Opção").
+function buildTemplateText(row: TemplateRow): string {
+  const { buttons, list } = parseRow(row);
+  const parts: string[] = row.message ? [row.message] : [];
+
+  if (buttons && buttons.length > 0) {
+    parts.push(buttons.map((button, index) => `*${index + 1}* - ${button.title}`).join('\n'));
+  }
+
+  if (list && list.sections.length > 0) {
+    // Numeração continua depois dos botões
+    let number = buttons?.length || 0;
+    const lines: string[] = list.title ? [`*${list.title}*`] : [];
+    for (const section of list.sections) {
+      if (section.title) {
+        lines.push(`\n_${section.title}_`);
+      }
+      for (const row of section.rows) {
+        number++;
+        lines.push(`*${number}* - ${row.title}${row.description ? `: ${row.description}` : ''}`);
+      }
+    }
+    parts.push(lines.join('\n').trim());
+  }
+
+  return parts.join('\n\n');
+}
+
+function formatTemplate(row: TemplateRow) {
+  const { media, buttons, list } = parseRow(row);
+  return {
+    id: row.id,
+    name: row.name,
+    message: row.message || undefined,
+    variables: extractPlaceholders(buildTemplateText(row)),
+    media: media ? {
+      type: media.type,
+      mimetype: media.mimetype,
+      filename: media.filename,
+      size: media.size,
+      url: media.url,
+    } : undefined,
+    buttons: buttons || undefined,
+    list: list || undefined,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+  };
+}
+
+export type MessageTemplate = ReturnType<typeof formatTemplate>;
+
+function getRow(id: string): TemplateRow | undefined {
+  return db.prepare('SELECT * FROM message_templates WHERE id = ?').get(id) as TemplateRow | undefined;
+}
+
+function validateButtons(buttons: unknown): string | null {
+  if (!Array.isArray(buttons) || buttons.length === 0 || buttons.length > MAX_BUTTONS) {
+    return `buttons must be an array with 1 to ${MAX_BUTTONS} items`;
+  }
+  if (buttons.some(button => !button || typeof button.title !== 'string' || !button.title.trim())) {
+    return 'buttons[].title is required';
+  }
+  return null;
+}
+
+function validateList(list: any): string | null {
+  if (!list || typeof list !== 'object' || !Array.isArray(list.sections) || list.sections.length === 0) {
+    return 'list.sections must be a non-empty array';
+  }
+  let rows = 0;
+  for (const section of list.sections) {
+    if (!section || !Array.isArray(section.rows) || section.rows.length === 0) {
+      return 'list.sections[].rows must be a non-empty array';
+    }
+    if (section.rows.some((row: any) => !row || typeof row.title !== 'string' || !row.title.trim())) {
+      return 'list.sections[].rows[].title is required';
+    }
+    rows += section.rows.length;
+  }
+  if (rows > MAX_LIST_ROWS) {
+    return `list must have at most ${MAX_LIST_ROWS} rows`;
+  }
+  return null;
+}
+
+// Validar criação/atualização (partial = PATCH); retorna mensagem de erro ou null
+export function validateTemplateInput(input: TemplateInput, partial = false, file?: SendMessageFile, templateId?: string): string | null {
+  if (!partial || input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      return 'name is required';
+    }
+    const existing = db
+      .prepare('SELECT id FROM message_templates WHERE name = ? AND id IS NOT ?')
+      .get(input.name.trim(), templateId || null);
+    if (existing) {
+      return `A template named "${input.name.trim()}" already exists`;
+    }
+  }
+
+  if (input.message !== undefined && input.message !== null && typeof input.message !== 'string') {
+    return 'message must be a string';
+  }
+
+  const mediaSources = [file, input.mediaUrl, input.mediaData].filter(Boolean).length;
+  if (mediaSources > 1) {
+    return 'Use only one of file, mediaUrl or mediaData';
+  }
+  if (input.mediaType !== undefined && !MEDIA_TYPES.includes(input.mediaType)) {
+    return `mediaType must be one of: ${MEDIA_TYPES.join(', ')}`;
+  }
+  if (input.mediaUrl !== undefined) {
+    try {
+      new URL(input.mediaUrl);
+    } catch {
+      return 'mediaUrl must be a valid URL';
+    }
+  }
+  if (input.mediaData !== undefined) {
+    const processed = processBase64Data(input.mediaData);
+    if (!processed) {
+      return 'Invalid base64 data URL format. Expected: data:mimetype;base64,data';
+    }
+    const sizeError = getUploadSizeError(input.mediaType || detectMediaType(processed.mimetype), processed.buffer.length);
+    if (sizeError) {
+      return sizeError;
+    }
+  }
+  if (file) {
+    const sizeError = getUploadSizeError(input.mediaType || detectMediaType(input.mediaMimetype || file.mimetype), file.size);
+    if (sizeError) {
+      return sizeError;
+    }
+  }
+
+  if (input.buttons !== undefined && input.buttons !== null) {
+    const buttonsError = validateButtons(input.buttons);
+    if (buttonsError) {
+      return buttonsError;
+    }
+  }
+  if (input.list !== undefined && input.list !== null) {
+    const listError = validateList(input.list);
+    if (listError) {
+      return listError;
+    }
+  }
+
+  // Precisa restar algum conteúdo (na atualização, considerando o que já está salvo)
+  const row = partial && templateId ? getRow(templateId) : undefined;
+  const keep = (field: 'message' | 'buttons' | 'list') => input[field] !== undefined ? !!input[field] : !!row?.[field];
+  const hasMedia = mediaSources > 0 || (!!row?.media && input.removeMedia !== true);
+  if (!keep('message') && !hasMedia && !keep('buttons') && !keep('list')) {
+    return 'message, media (file, mediaUrl or mediaData), buttons or list is required';
+  }
+  return null;
+}
+
+// Gravar mídia do modelo (upload ou base64) em TEMPLATES_DIR; URL remota fica só referenciada
+async function saveTemplateMedia(id: string, input: TemplateInput, file?: SendMessageFile): Promise<TemplateMedia | null> {
+  if (input.mediaUrl) {
+    const mimetype = input.mediaMimetype || 'image/jpeg';
+    return { type: input.mediaType || detectMediaType(mimetype), mimetype, filename: input.mediaFilename, url: input.mediaUrl };
+  }
+
+  // Nome novo a cada gravação: o arquivo anterior só é apagado depois de MEDIA_REMOVAL_DELAY_MS
+  const path = join(TEMPLATES_DIR, `${id}-${Date.now()}`);
+  if (file) {
+    const mimetype = input.mediaMimetype || file.mimetype || 'application/octet-stream';
+    await fs.promises.copyFile(file.path, path);
+    return { type: input.mediaType || detectMediaType(mimetype), mimetype, filename: input.mediaFilename || file.originalname, size: file.size, path };
+  }
+  if (input.mediaData) {
+    const { buffer, mimetype } = processBase64Data(input.mediaData)!;
+    await fs.promises.writeFile(path, buffer);
+    return { type: input.mediaType || detectMediaType(mimetype), mimetype, filename: input.mediaFilename, size: buffer.length, path };
+  }
+  return null;
+}
+
+// Arquivo substituído/removido só é apagado depois deste prazo: envios que já leram o modelo
+// (ex.: aguardando o limite de envio) ainda usam o caminho anterior
+const MEDIA_REMOVAL_DELAY_MS = 10 * 60_000;
+
+function removeTemplateMedia(media: TemplateMedia | null) {
+  const path = media?.path;
+  if (!path) {
+    return;
+  }
+  setTimeout(() => {
+    fs.promises.rm(path, { force: true }).catch((error) => {
+      logger.warn({ err: error, path }, 'Could not remove template media');
+    });
+  }, MEDIA_REMOVAL_DELAY_MS).unref();
+}
+
+// Apagar arquivos de TEMPLATES_DIR que nenhum modelo usa (remoções adiadas perdidas num reinício)
+export async function removeOrphanTemplateMedia() {
+  if (!fs.existsSync(TEMPLATES_DIR)) {
+    return;
+  }
+
+  const rows = db.prepare('SELECT media FROM message_templates WHERE media IS NOT NULL').all() as Pick<TemplateRow, 'media'>[];
+  const inUse = new Set(rows.map(row => (JSON.parse(row.media!) as TemplateMedia).path).filter(Boolean));
+  for (const name of await fs.promises.readdir(TEMPLATES_DIR)) {
+    const path = join(TEMPLATES_DIR, name);
+    // Arquivos recentes podem ser de um modelo sendo gravado agora
+    if (!inUse.has(path) && Date.now() - (await fs.promises.stat(path)).mtimeMs > MEDIA_REMOVAL_DELAY_MS) {
+      await fs.promises.rm(path, { force: true });
+      logger.debug({ path }, 'Orphan template media removed');
+    }
+  }
+}
+
+// Criar modelo (input já validado)
+export async function createTemplate(input: TemplateInput, file?: SendMessageFile): Promise<MessageTemplate> {
+  const id = randomUUID();
+  const media = await saveTemplateMedia(id, input, file);
+  const now = Date.now();
+
+  const row: TemplateRow = {
+    id,
+    name: input.name!.trim(),
+    message: input.message || null,
+    media: media ? JSON.stringify(media) : null,
+    buttons: input.buttons ? JSON.stringify(input.buttons) : null,
+    list: input.list ? JSON.stringify(input.list) : null,
+    created_at: now,
+    updated_at: now,
+  };
+
+  db.prepare(`
+    INSERT INTO message_templates (id, name, message, media, buttons, list, created_at, updated_at)
+    VALUES (@id, @name, @message, @media, @buttons, @list, @created_at, @updated_at)
+  `).run(row);
+
+  logger.info({ templateId: id, name: row.name }, '📝 Message template created');
+  return formatTemplate(row);
+}
+
+// Atualizar modelo (input já validado); null em um campo remove o conteúdo
+export async function updateTemplate(id: string, input: TemplateInput, file?: SendMessageFile): Promise<MessageTemplate | null> {
+  const row = getRow(id);
+  if (!row) {
+    return null;
+  }
+
+  const current = parseRow(row);
+  const newMedia = await saveTemplateMedia(id, input, file);
+  const replaceMedia = !!newMedia || input.removeMedia === true;
+
+  const updated: TemplateRow = {
+    ...row,
+    name: input.name !== undefined ? input.name.trim() : row.name,
+    message: input.message !== undefined ? input.message || null : row.message,
+    media: replaceMedia ? (newMedia ? JSON.stringify(newMedia) : null) : row.media,
+    buttons: input.buttons !== undefined ? (input.buttons ? JSON.stringify(input.buttons) : null) : row.buttons,
+    list: input.list !== undefined ? (input.list ? JSON.stringify(input.list) : null) : row.list,
+    updated_at: Date.now(),
+  };
+
+  db.prepare(`
+    UPDATE message_templates SET name = @name, message = @message, media = @media, buttons = @buttons, list = @list, updated_at = @updated_at
+    WHERE id = @id
+  `).run(updated);
+
+  if (replaceMedia) {
+    removeTemplateMedia(current.media);
+  }
+  logger.info({ templateId: id, name: updated.name }, '📝 Message template updated');
+  return formatTemplate(updated);
+}
+
+export function deleteTemplate(id: string): boolean {
+  const row = getRow(id);
+  if (!row) {
+    return false;
+  }
+  db.prepare('DELETE FROM message_templates WHERE id = ?').run(id);
+  removeTemplateMedia(parseRow(row).media);
+  logger.info({ templateId: id, name: row.name }, '🗑️ Message template deleted');
+  return true;
+}
+
+export function getTemplate(id: string): MessageTemplate | null {
+  const row = getRow(id);
+  return row ? formatTemplate(row) : null;
+}
+
+export function listTemplates(): MessageTemplate[] {
+  const rows = db.prepare('SELECT * FROM message_templates ORDER BY name').all() as TemplateRow[];
+  return rows.map(formatTemplate);
+}
+
+// Variáveis do modelo que não foram informadas (null se o modelo não existe)
+export function getMissingTemplateVariables(id: string, variables?: TemplateVariables): string[] | null {
+  const row = getRow(id);
+  return row ? getMissingVariables(buildTemplateText(row), variables) : null;
+}
+
+// Conteúdo de envio do modelo com as variáveis aplicadas (null se o modelo não existe)
+export function renderTemplate(id: string, variables?: TemplateVariables): { content: Partial<SendMessageInput>; file?: SendMessageFile } | null {
+  const row = getRow(id);
+  if (!row) {
+    return null;
+  }
+
+  const { media } = parseRow(row);
+  const text = buildTemplateText(row);
+  const content: Partial<SendMessageInput> = {
+    message: text ? renderPlaceholders(text, variables) : undefined,
+  };
+  if (!media) {
+    return { content };
+  }
+
+  content.mediaType = media.type;
+  content.mediaMimetype = media.mimetype;
+  content.mediaFilename = media.filename;
+  if (media.url) {
+    content.mediaUrl = media.url;
+    return { content };
+  }
+  return {
+    content,
+    file: { path: media.path!, size: media.size || 0, mimetype: media.mimetype, originalname: media.filename || 'file' },
+  };
+}
@@ -0,0 +1,115 @@
+import {
+  SEND_RATE_PER_MINUTE,
+  SEND_MIN_INTERVAL_PER_CHAT_MS,
+  SEND_JITTER_MS,
+  SEND_MAX_WAIT_MS,
+  SEND_THROTTLE_MODE,
+  SEND_TYPING_SIMULATION,
+  SEND_TYPING_MS_PER_CHAR,
+  SEND_TYPING_MAX_MS,
+} from './config.js';
+import type { WhatsAppSession } from './sessions.js';
+
+// Controle de vazão dos envios por número (evita bloqueio por envio em massa):
+// limite global por minuto, intervalo mínimo por destinatário e jitter aleatório.
+interface ThrottleState {
+  // Horários de envio reservados no último minuto (podem estar no futuro), em ordem
+  sendTimes: number[];
+  lastSendByChat: Map<string, number>;
+}
+
+const WINDOW_MS = 60_000;
+
+const states = new Map<string, ThrottleState>();
+
+function getState(sessionId: string): ThrottleState {
+  let state = states.get(sessionId);
+  if (!state) {
+    state = { sendTimes: [], lastSendByChat: new Map() };
+    states.set(sessionId, state);
+  }
+  return state;
+}
+
+function prune(state: ThrottleState, now: number) {
+  while (state.sendTimes.length > 0 && state.sendTimes[0] <= now - WINDOW_MS) {
+    state.sendTimes.shift();
+  }
+  for (const [jid, at] of state.lastSendByChat) {
+    if (at <= now - SEND_MIN_INTERVAL_PER_CHAT_MS) {
+      state.lastSendByChat.delete(jid);
+    }
+  }
+}
+
+// Primeiro horário em que o envio para jid respeita os limites
+function getEarliestSendTime(state: ThrottleState, jid: string, now: number): number {
+  let at = now;
+  const lastChatSend = state.lastSendByChat.get(jid);
+  if (SEND_MIN_INTERVAL_PER_CHAT_MS > 0 && lastChatSend !== undefined) {
+    at = Math.max(at, lastChatSend + SEND_MIN_INTERVAL_PER_CHAT_MS);
+  }
+
+  if (SEND_RATE_PER_MINUTE > 0) {
+    // Avançar até que a janela de 1 minuto anterior tenha menos de SEND_RATE_PER_MINUTE envios
+    for (;;) {
+      const inWindow = state.sendTimes.filter(time => time > at - WINDOW_MS);
+      if (inWindow.length < SEND_RATE_PER_MINUTE) {
+        break;
+      }
+      at = inWindow[inWindow.length - SEND_RATE_PER_MINUTE] + WINDOW_MS;
+    }
+  }
+
+  return at;
+}
+
+export type SendSlot =
+  | { allowed: true; waitMs: number }
+  | { allowed: false; retryAfterMs: number };
+
+// Reservar horário de envio. Sem espera (ou dentro de SEND_MAX_WAIT_MS no modo "queue") o horário
+// fica reservado e waitMs diz quanto aguardar; caso contrário nada é reservado (HTTP 429).
+// force ignora o modo e o limite de espera (envios em segundo plano: agendados, fila de saída).
+export function reserveSendSlot(sessionId: string, jid: string, force = false): SendSlot {
+  const now = Date.now();
+  const state = getState(sessionId);
+  prune(state, now);
+
+  const at = getEarliestSendTime(state, jid, now);
+  const waitMs = at - now;
+  if (!force && waitMs > 0 && (SEND_THROTTLE_MODE === 'reject' || waitMs > SEND_MAX_WAIT_MS)) {
+    return { allowed: false, retryAfterMs: waitMs };
+  }
+
+  // Jitter entra depois da decisão: não conta para o 429, só espalha os envios
+  const sendAt = at + (SEND_JITTER_MS > 0 ? Math.floor(Math.random() * SEND_JITTER_MS) : 0);
+  const index = state.sendTimes.findIndex(time => time > sendAt);
+  state.sendTimes.splice(index === -1 ? state.sendTimes.length : index, 0, sendAt);
+  state.lastSendByChat.set(jid, Math.max(sendAt, state.lastSendByChat.get(jid) ?? 0));
+
+  return { allowed: true, waitMs: sendAt - now };
+}
+
+// Simular "digitando..." por um tempo proporcional ao texto antes de enviar
+export async function simulateTyping(session: WhatsAppSession, jid: string, text: string | undefined, enabled = SEND_TYPING_SIMULATION) {
+  const socket = session.socket;
+  if (!enabled || !text || !socket) {
+    return;
+  }
+
+  const duration = Math.min(text.length * SEND_TYPING_MS_PER_CHAR, SEND_TYPING_MAX_MS);
+  try {
+    await socket.sendPresenceUpdate('composing', jid);
+    await new Promise(resolve => setTimeout(resolve, duration));
+    await socket.sendPresenceUpdate('paused', jid);
+  } catch (error) {
+    // Presença é cosmética; falha não impede o envio
+    session.logger.debug({ err: error, jid }, 'Could not send typing presence');
+  }
+}
+
+// Limpar estado de uma sessão removida
+export function clearSendThrottle(sessionId: string) {
+  states.delete(sessionId);
+}
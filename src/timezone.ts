@@ -0,0 +1,65 @@
+// Conversão de data/hora local em um fuso IANA (ex.: America/Sao_Paulo) sem dependências externas
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Componentes de data/hora de um instante no fuso informado
+export function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    weekday: 'short',
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value || '';
+  return {
+    year: parseInt(get('year'), 10),
+    month: parseInt(get('month'), 10),
+    day: parseInt(get('day'), 10),
+    hour: parseInt(get('hour'), 10),
+    minute: parseInt(get('minute'), 10),
+    second: parseInt(get('second'), 10),
+    // 0 = domingo ... 6 = sábado
+    weekday: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(get('weekday')),
+  };
+}
+
+// Diferença (ms) entre o horário local do fuso e UTC no instante informado
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getZonedParts(date, timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Interpretar data/hora: ISO com fuso (Z ou ±hh:mm) é usado como está; sem fuso, vale o timeZone informado.
+// Retorna null se a data for inválida.
+export function parseDateInTimeZone(value: string, timeZone: string): Date | null {
+  if (/(Z|[+-]\d{2}:?\d{2})$/i.test(value)) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second = '0'] = match;
+  const asUtc = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+
+  // Ajustar pelo offset do fuso (duas passadas para acertar a virada de horário de verão)
+  let timestamp = asUtc - getTimeZoneOffset(new Date(asUtc), timeZone);
+  timestamp = asUtc - getTimeZoneOffset(new Date(timestamp), timeZone);
+  return new Date(timestamp);
+}
@@ -0,0 +1,96 @@
+import express from 'express';
+import multer from 'multer';
+import fs from 'fs';
+import os from 'os';
+import { UPLOAD_LIMITS_MB } from './config.js';
+import { logger } from './logger.js';
+
+export type MediaType = 'image' | 'video' | 'audio' | 'sticker' | 'document';
+
+const MAX_UPLOAD_BYTES = Math.floor(Math.max(...Object.values(UPLOAD_LIMITS_MB)) * 1024 * 1024);
+
+// Campos enviados como JSON dentro do multipart (ex.: -F 'mentions=["5511..."]')
+const JSON_FIELDS = ['mentions', 'contact', 'poll', 'variables', 'buttons', 'list'];
+
+// Upload vai direto para um arquivo temporário (sem manter o arquivo inteiro em memória)
+const upload = multer({
+  storage: multer.diskStorage({ destination: os.tmpdir() }),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+});
+
+// Tipo de mídia a partir do mimetype (quando mediaType não é informado)
+export function detectMediaType(mimetype: string): MediaType {
+  return mimetype.startsWith('image/') ? 'image' :
+    mimetype.startsWith('video/') ? 'video' :
+    mimetype.startsWith('audio/') ? 'audio' : 'document';
+}
+
+// Mensagem de erro quando o arquivo passa do limite do tipo (null se estiver dentro)
+export function getUploadSizeError(mediaType: string, size: number): string | null {
+  const limitMb = UPLOAD_LIMITS_MB[mediaType] ?? UPLOAD_LIMITS_MB.document;
+  if (size <= limitMb * 1024 * 1024) {
+    return null;
+  }
+  return `File too large for ${mediaType} (${(size / 1024 / 1024).toFixed(1)} MB, max ${limitMb} MB)`;
+}
+
+// Middleware multipart/form-data (campo "file" + os mesmos campos do JSON); ignora requisições JSON
+export function parseMultipartUpload(req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (!req.is('multipart/form-data')) {
+    return next();
+  }
+
+  upload.single('file')(req, res, (error: unknown) => {
+    // Remover arquivo temporário quando a resposta terminar (sucesso ou erro)
+    const file = req.file;
+    if (file) {
+      res.on('close', () => {
+        fs.promises.rm(file.path, { force: true }).catch((rmError) => {
+          logger.warn({ err: rmError, path: file.path }, 'Could not remove uploaded file');
+        });
+      });
+    }
+
+    if (error instanceof multer.MulterError) {
+      if (error.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({
+          success: false,
+          error: `File too large (max ${MAX_UPLOAD_BYTES / 1024 / 1024} MB)`,
+        });
+      }
+      return res.status(400).json({
+        success: false,
+        error: `Invalid upload: ${error.message}`,
+      });
+    }
+    if (error) {
+      return next(error);
+    }
+
+    for (const field of JSON_FIELDS) {
+      if (typeof req.body[field] === 'string') {
+        try {
+          req.body[field] = JSON.parse(req.body[field]);
+        } catch {
+          return res.status(400).json({
+            success: false,
+            error: `Field ${field} must be valid JSON`,
+          });
+        }
+      }
+    }
+    if (typeof req.body.latitude === 'string') {
+      req.body.latitude = parseFloat(req.body.latitude);
+    }
+    if (typeof req.body.longitude === 'string') {
+      req.body.longitude = parseFloat(req.body.longitude);
+    }
+    for (const field of ['viewOnce', 'queueIfDisconnected', 'simulateTyping', 'removeMedia', 'transactional']) {
+      if (typeof req.body[field] === 'string') {
+        req.body[field] = req.body[field] === 'true';
+      }
+    }
+
+    next();
+  });
+}
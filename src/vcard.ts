@@ -0,0 +1,72 @@
+// Leitura simplificada de vCard (cartões de contato compartilhados no WhatsApp)
+
+export interface VCardPhone {
+  number: string;
+  // Número do WhatsApp (parâmetro waid), quando o contato usa WhatsApp
+  waId?: string;
+  type?: string;
+}
+
+export interface ParsedVCard {
+  name?: string;
+  phones: VCardPhone[];
+  emails: string[];
+  organization?: string;
+  vcard: string;
+}
+
+// Decodificar escapes do vCard (\n, \, e \;)
+function unescapeValue(value: string): string {
+  return value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1').trim();
+}
+
+export function parseVCard(vcard: string, displayName?: string | null): ParsedVCard {
+  const result: ParsedVCard = { phones: [], emails: [], vcard };
+  let structuredName: string | undefined;
+
+  // Linhas longas podem continuar na linha seguinte (iniciada por espaço)
+  const lines = vcard.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+
+    // Ex.: item1.TEL;type=CELL;waid=5511999999999
+    const [rawName, ...rawParams] = line.slice(0, separator).split(';');
+    const name = rawName.replace(/^item\d+\./i, '').toUpperCase();
+    const value = line.slice(separator + 1);
+    const params = new Map(
+      rawParams.map(param => {
+        const [key, paramValue = ''] = param.split('=');
+        return [key.toLowerCase(), paramValue] as const;
+      }),
+    );
+
+    switch (name) {
+      case 'FN':
+        result.name = unescapeValue(value);
+        break;
+      case 'N':
+        structuredName = value.split(';').map(unescapeValue).filter(Boolean).reverse().join(' ');
+        break;
+      case 'TEL':
+        result.phones.push({
+          number: unescapeValue(value),
+          waId: params.get('waid') || undefined,
+          type: params.get('type') || undefined,
+        });
+        break;
+      case 'EMAIL':
+        result.emails.push(unescapeValue(value));
+        break;
+      case 'ORG':
+        result.organization = value.split(';').map(unescapeValue).filter(Boolean).join(' - ') || undefined;
+        break;
+    }
+  }
+
+  result.name = result.name || structuredName || displayName || undefined;
+  return result;
+}
@@ -0,0 +1,59 @@
+import crypto from 'crypto';
+
+// Assinatura HMAC-SHA256 dos webhooks. Este módulo não depende da configuração do servidor,
+// para que o CRM possa importá-lo e validar as requisições recebidas.
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+// Tolerância padrão entre o timestamp assinado e o relógio de quem valida (5 minutos)
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+function computeSignature(secret: string, body: string, timestamp: number): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// Assinar o corpo (JSON já serializado): o HMAC cobre "<timestamp>.<body>"
+export function signWebhookPayload(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)) {
+  return {
+    timestamp: String(timestamp),
+    signature: `sha256=${computeSignature(secret, body, timestamp)}`,
+  };
+}
+
+export interface VerifyWebhookSignatureOptions {
+  secret: string;
+  // Corpo bruto exatamente como recebido (antes de JSON.parse)
+  body: string;
+  // Valores dos headers X-Webhook-Signature e X-Webhook-Timestamp
+  signature: string | null | undefined;
+  timestamp: string | null | undefined;
+  toleranceSeconds?: number;
+  now?: number;
+}
+
+// Validar assinatura e janela de tempo (evita replay de requisições antigas)
+export function verifyWebhookSignature(options: VerifyWebhookSignatureOptions): boolean {
+  const {
+    secret,
+    body,
+    signature,
+    timestamp,
+    toleranceSeconds = DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+    now = Math.floor(Date.now() / 1000),
+  } = options;
+
+  if (!signature || !timestamp || !signature.startsWith('sha256=')) {
+    return false;
+  }
+
+  const timestampNum = parseInt(timestamp, 10);
+  if (isNaN(timestampNum) || Math.abs(now - timestampNum) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeSignature(secret, body, timestampNum), 'hex');
+  const received = Buffer.from(signature.slice('sha256='.length), 'hex');
+
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
@@ -0,0 +1,343 @@
+import { db } from './db.js';
+import { logger } from './logger.js';
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_RETRY_BASE_MS,
+  WEBHOOK_RETRY_MAX_DELAY_MS,
+  WEBHOOK_TIMEOUT_MS,
+} from './config.js';
+import { getSubscription, CRM_SUBSCRIPTION_ID } from './subscriptions.js';
+import { signWebhookPayload, WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER } from './webhook-signature.js';
+
+// Fila persistente de webhooks: cada entrega é gravada antes do envio e só sai da fila
+// quando o destino responde 2xx. Após WEBHOOK_MAX_ATTEMPTS falhas vai para a dead-letter.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT NOT NULL,
+    event TEXT NOT NULL,
+    url TEXT NOT NULL,
+    ordering_key TEXT NOT NULL,
+    body TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at INTEGER NOT NULL,
+    last_error TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status ON webhook_deliveries (status, url, ordering_key, id);
+`);
+
+// Entregas antigas (antes do registro de webhooks) pertencem à assinatura do CRM
+const deliveryColumns = db.prepare('PRAGMA table_info(webhook_deliveries)').all() as { name: string }[];
+if (!deliveryColumns.some(column => column.name === 'subscription_id')) {
+  db.exec(`ALTER TABLE webhook_deliveries ADD COLUMN subscription_id TEXT NOT NULL DEFAULT '${CRM_SUBSCRIPTION_ID}'`);
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'dead';
+
+interface WebhookDeliveryRow {
+  id: number;
+  subscription_id: string;
+  session_id: string;
+  event: string;
+  url: string;
+  ordering_key: string;
+  body: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: number;
+  last_error: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface WebhookDeliveryInput {
+  subscriptionId: string;
+  sessionId: string;
+  event: string;
+  url: string;
+  // Entregas com a mesma chave (ex.: chatId) para a mesma URL saem em ordem
+  orderingKey: string;
+  body: Record<string, unknown>;
+}
+
+// Credenciais enviadas junto com o webhook
+export interface WebhookAuth {
+  secret?: string;
+  bearerToken?: string;
+  headers?: Record<string, string>;
+}
+
+// Montar headers da requisição: headers fixos, bearer token e assinatura HMAC do corpo
+function buildDeliveryHeaders(delivery: WebhookDeliveryRow, auth: WebhookAuth): Record<string, string> {
+  const headers: Record<string, string> = {
+    ...auth.headers,
+    'Content-Type': 'application/json',
+    'X-Webhook-Event': delivery.event,
+    'X-Webhook-Delivery': String(delivery.id),
+  };
+
+  if (auth.bearerToken) {
+    headers.Authorization = `Bearer ${auth.bearerToken}`;
+  }
+
+  // Assinado a cada tentativa para que o timestamp acompanhe o envio
+  if (auth.secret) {
+    const { signature, timestamp } = signWebhookPayload(auth.secret, delivery.body);
+    headers[WEBHOOK_TIMESTAMP_HEADER] = timestamp;
+    headers[WEBHOOK_SIGNATURE_HEADER] = signature;
+  }
+
+  return headers;
+}
+
+const WORKER_INTERVAL_MS = 1000;
+const WORKER_BATCH_SIZE = 20;
+// Assinatura desativada: entregas pendentes aguardam a reativação, verificada a cada intervalo
+const DISABLED_HOLD_MS = 30_000;
+
+let workerInterval: NodeJS.Timeout | null = null;
+let workerRunning = false;
+
+const insertDeliveryStmt = db.prepare(`
+  INSERT INTO webhook_deliveries (subscription_id, session_id, event, url, ordering_key, body, next_attempt_at, created_at, updated_at)
+  VALUES (@subscriptionId, @sessionId, @event, @url, @orderingKey, @body, @now, @now, @now)
+`);
+
+// Apenas a entrega mais antiga de cada (url, ordering_key) é elegível, preservando a ordem por chat
+const selectDueDeliveriesStmt = db.prepare(`
+  SELECT * FROM webhook_deliveries
+  WHERE id IN (
+    SELECT MIN(id) FROM webhook_deliveries
+    WHERE status = 'pending'
+    GROUP BY url, ordering_key
+  )
+  AND next_attempt_at <= ?
+  ORDER BY id
+  LIMIT ?
+`);
+
+// Enfileirar entrega de webhook
+export function enqueueWebhook(input: WebhookDeliveryInput): number {
+  const result = insertDeliveryStmt.run({
+    subscriptionId: input.subscriptionId,
+    sessionId: input.sessionId,
+    event: input.event,
+    url: input.url,
+    orderingKey: input.orderingKey,
+    body: JSON.stringify(input.body),
+    now: Date.now(),
+  });
+
+  // Tentar entregar imediatamente em vez de esperar o próximo ciclo
+  setImmediate(() => {
+    processWebhookQueue().catch(err => {
+      logger.error({ err }, 'Error processing webhook queue');
+    });
+  });
+
+  return Number(result.lastInsertRowid);
+}
+
+// Atraso exponencial: base * 2^(tentativas - 1), limitado ao máximo configurado
+function getRetryDelay(attempts: number): number {
+  return Math.min(WEBHOOK_RETRY_BASE_MS * 2 ** (attempts - 1), WEBHOOK_RETRY_MAX_DELAY_MS);
+}
+
+async function deliver(delivery: WebhookDeliveryRow) {
+  const attempts = delivery.attempts + 1;
+
+  // Assinatura removida depois do enfileiramento - descartar
+  const subscription = getSubscription(delivery.subscription_id);
+  if (!subscription) {
+    db.prepare('DELETE FROM webhook_deliveries WHERE id = ?').run(delivery.id);
+    logger.warn({ deliveryId: delivery.id, subscriptionId: delivery.subscription_id }, '⚠️ Webhook subscription no longer exists - delivery discarded');
+    return;
+  }
+
+  // Desativada: manter na fila sem contar tentativa
+  if (!subscription.enabled) {
+    db.prepare('UPDATE webhook_deliveries SET next_attempt_at = ?, updated_at = ? WHERE id = ?')
+      .run(Date.now() + DISABLED_HOLD_MS, Date.now(), delivery.id);
+    logger.debug({ deliveryId: delivery.id, subscriptionId: subscription.id }, 'Webhook subscription disabled - delivery on hold');
+    return;
+  }
+
+  // URL e credenciais lidas no envio, para que alterações na assinatura valham para retentativas
+  const url = subscription.url;
+  const auth: WebhookAuth = {
+    secret: subscription.secret,
+    bearerToken: subscription.bearerToken,
+    headers: subscription.headers,
+  };
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: buildDeliveryHeaders(delivery, auth),
+      body: delivery.body,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`HTTP ${response.status}: ${errorText.slice(0, 500)}`);
+    }
+
+    db.prepare('DELETE FROM webhook_deliveries WHERE id = ?').run(delivery.id);
+    logger.info({ deliveryId: delivery.id, event: delivery.event, attempts }, '✅ Webhook delivered');
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const now = Date.now();
+
+    if (attempts >= WEBHOOK_MAX_ATTEMPTS) {
+      db.prepare(`
+        UPDATE webhook_deliveries SET status = 'dead', attempts = ?, last_error = ?, updated_at = ? WHERE id = ?
+      `).run(attempts, errorMessage, now, delivery.id);
+      logger.error({ deliveryId: delivery.id, event: delivery.event, url, attempts, error: errorMessage }, '❌ Webhook moved to dead-letter queue');
+      return;
+    }
+
+    const delay = getRetryDelay(attempts);
+    db.prepare(`
+      UPDATE webhook_deliveries SET attempts = ?, next_attempt_at = ?, last_error = ?, updated_at = ? WHERE id = ?
+    `).run(attempts, now + delay, errorMessage, now, delivery.id);
+    logger.warn({ deliveryId: delivery.id, event: delivery.event, attempts, delay, error: errorMessage }, '⚠️ Webhook delivery failed - will retry');
+  }
+}
+
+// Processar entregas vencidas (uma por chave de ordenação, em paralelo entre chaves)
+export async function processWebhookQueue() {
+  if (workerRunning) {
+    return;
+  }
+  workerRunning = true;
+
+  try {
+    let due = selectDueDeliveriesStmt.all(Date.now(), WORKER_BATCH_SIZE) as WebhookDeliveryRow[];
+    while (due.length > 0) {
+      await Promise.all(due.map(deliver));
+      due = selectDueDeliveriesStmt.all(Date.now(), WORKER_BATCH_SIZE) as WebhookDeliveryRow[];
+    }
+  } finally {
+    workerRunning = false;
+  }
+}
+
+export function startWebhookWorker() {
+  if (workerInterval) {
+    clearInterval(workerInterval);
+  }
+
+  workerInterval = setInterval(() => {
+    processWebhookQueue().catch(err => {
+      logger.error({ err }, 'Error processing webhook queue');
+    });
+  }, WORKER_INTERVAL_MS);
+
+  logger.info({ maxAttempts: WEBHOOK_MAX_ATTEMPTS }, 'Webhook delivery worker started');
+}
+
+function formatDelivery(row: WebhookDeliveryRow) {
+  return {
+    id: row.id,
+    subscriptionId: row.subscription_id,
+    sessionId: row.session_id,
+    event: row.event,
+    url: row.url,
+    orderingKey: row.ordering_key,
+    status: row.status,
+    attempts: row.attempts,
+    lastError: row.last_error || undefined,
+    nextAttemptAt: row.status === 'pending' ? new Date(row.next_attempt_at).toISOString() : undefined,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+    body: JSON.parse(row.body),
+  };
+}
+
+// Listar entregas por status (pendentes ou dead-letter)
+export function listWebhookDeliveries(options: { status: WebhookDeliveryStatus; sessionId?: string; limit: number; offset: number }) {
+  const { status, sessionId, limit, offset } = options;
+
+  const rows = db.prepare(`
+    SELECT * FROM webhook_deliveries
+    WHERE status = @status AND (@sessionId IS NULL OR session_id = @sessionId)
+    ORDER BY id
+    LIMIT @limit OFFSET @offset
+  `).all({ status, sessionId: sessionId || null, limit, offset }) as WebhookDeliveryRow[];
+
+  const { total } = db.prepare(`
+    SELECT COUNT(*) AS total FROM webhook_deliveries
+    WHERE status = @status AND (@sessionId IS NULL OR session_id = @sessionId)
+  `).get({ status, sessionId: sessionId || null }) as { total: number };
+
+  return { deliveries: rows.map(formatDelivery), total };
+}
+
+// Contagem de entregas pendentes e na dead-letter
+export function getWebhookQueueStats() {
+  const rows = db
+    .prepare('SELECT status, COUNT(*) AS count FROM webhook_deliveries GROUP BY status')
+    .all() as { status: WebhookDeliveryStatus; count: number }[];
+
+  const stats = { pending: 0, dead: 0 };
+  for (const row of rows) {
+    stats[row.status] = row.count;
+  }
+  return stats;
+}
+
+// Reenfileirar entregas da dead-letter (todas se ids não for informado)
+export function replayDeadLetters(ids?: number[]): number {
+  const now = Date.now();
+  const replay = db.prepare(`
+    UPDATE webhook_deliveries SET status = 'pending', attempts = 0, next_attempt_at = @now, last_error = NULL, updated_at = @now
+    WHERE status = 'dead' AND (@id IS NULL OR id = @id)
+  `);
+
+  const replayed = db.transaction(() => {
+    if (!ids) {
+      return replay.run({ now, id: null }).changes;
+    }
+    return ids.reduce((count, id) => count + replay.run({ now, id }).changes, 0);
+  })();
+
+  if (replayed > 0) {
+    logger.info({ replayed }, 'Dead-letter webhooks replayed');
+    processWebhookQueue().catch(err => {
+      logger.error({ err }, 'Error processing webhook queue');
+    });
+  }
+  return replayed;
+}
+
+// Remover entregas da dead-letter (todas se ids não for informado)
+export function purgeDeadLetters(ids?: number[]): number {
+  const purge = db.prepare(`DELETE FROM webhook_deliveries WHERE status = 'dead' AND (@id IS NULL OR id = @id)`);
+
+  const purged = db.transaction(() => {
+    if (!ids) {
+      return purge.run({ id: null }).changes;
+    }
+    return ids.reduce((count, id) => count + purge.run({ id }).changes, 0);
+  })();
+
+  logger.info({ purged }, 'Dead-letter webhooks purged');
+  return purged;
+}
+
+// URL da assinatura alterada: entregas pendentes passam a usar a nova (mantém a ordenação por URL)
+export function retargetSubscriptionDeliveries(subscriptionId: string, url: string): number {
+  return db.prepare(`
+    UPDATE webhook_deliveries SET url = ?, updated_at = ? WHERE subscription_id = ? AND status = 'pending' AND url != ?
+  `).run(url, Date.now(), subscriptionId, url).changes;
+}
+
+// Remover entregas (pendentes e dead-letter) de uma assinatura excluída
+export function deleteSubscriptionDeliveries(subscriptionId: string): number {
+  return db.prepare('DELETE FROM webhook_deliveries WHERE subscription_id = ?').run(subscriptionId).changes;
+}